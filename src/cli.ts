@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import * as readline from "node:readline";
+import * as Types from "./types";
+import { defaultSettings } from "./settings";
+import { formTxtLog } from "./format";
+import { colourLevel, resolveTheme, themePainter } from "./theme";
+import { findLogFiles, followLogFiles, logToRecord, matchesFilter, parseLogLine, readLogLines } from "./view";
+
+const usage = `Usage: louis-log [options] [paths...]
+
+Pretty prints *.json.log files, or stdin when it's piped in. Paths can be files or directories, default ./logs
+
+Options:
+    --level <level>   Only show logs at or above this level, eg. WARN
+    --main <name>     Only show logs from this main process
+    --sub <name>      Only show logs from this sub process
+    --since <time>    Only show logs from this time on, eg. 2024-01-31T09:00 or 15m, 2h, 7d ago
+    --until <time>    Only show logs up to this time
+    --grep <pattern>  Only show logs whose message or data match this regex (case insensitive)
+    -f, --follow      Keep watching for new logs, including new files when the split directory rolls over
+    --theme <name>    Colour theme, eg. classic, subtle, badges or mono
+    -h, --help        Show this message`;
+
+const units: { [unit: string]: number } = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// "15m" means 15 minutes ago, anything else is parsed as a date
+function parseTime(option: string, value: string): Date {
+    const relative = /^(\d+)([smhd])$/.exec(value);
+    const date = relative != null ? new Date(Date.now() - Number(relative[1]) * units[relative[2]]) : new Date(value);
+    if (isNaN(date.getTime())) {
+        console.error(`--${option} is not a valid time:`, value);
+        process.exit(1);
+    }
+    return date;
+}
+
+async function main() {
+    let args;
+    try {
+        args = parseArgs({
+            allowPositionals: true,
+            options: {
+                level: { type: "string" },
+                main: { type: "string" },
+                sub: { type: "string" },
+                since: { type: "string" },
+                until: { type: "string" },
+                grep: { type: "string" },
+                follow: { type: "boolean", short: "f" },
+                theme: { type: "string" },
+                help: { type: "boolean", short: "h" },
+            },
+        });
+    } catch (error) {
+        console.error((error instanceof Error ? error.message : String(error)) + "\n\n" + usage);
+        process.exit(1);
+    }
+    const { values, positionals } = args;
+
+    if (values.help) {
+        console.log(usage);
+        return;
+    }
+
+    const filter: Types.LogFilter = {
+        minLevel: values.level?.toUpperCase(),
+        mainProcess: values.main,
+        subProcess: values.sub,
+        since: values.since != undefined ? parseTime("since", values.since) : undefined,
+        until: values.until != undefined ? parseTime("until", values.until) : undefined,
+    };
+    if (values.grep != undefined) {
+        try {
+            filter.grep = new RegExp(values.grep, "i");
+        } catch (error) {
+            console.error("--grep is not a valid regex:", values.grep);
+            process.exit(1);
+        }
+    }
+
+    const { paint, line } = themePainter(
+        resolveTheme(values.theme ?? defaultSettings.show.theme),
+        colourLevel(defaultSettings.show.colour),
+    );
+    const show = (text: string) => {
+        const log = parseLogLine(text);
+        if (log == undefined || !matchesFilter(log, filter)) return;
+        console.log(line(formTxtLog(logToRecord(log), defaultSettings.show, paint), log.logLevel));
+    };
+
+    // Piped in, eg. from ssh or zcat
+    if (positionals.length == 0 && !process.stdin.isTTY) {
+        for await (const text of readline.createInterface({ input: process.stdin })) show(text);
+        return;
+    }
+
+    const paths = positionals.length > 0 ? positionals : [defaultSettings.logStorage.path];
+    for (const path of paths) {
+        const files = await findLogFiles(path, filter);
+        if (files.length == 0 && !values.follow) console.error("No JSON log files found in", path);
+
+        if (!values.follow) {
+            for (const file of files) for await (const text of readLogLines(file)) show(text);
+            continue;
+        }
+
+        // Compressed files are finished with, so only the others need following
+        for (const file of files.filter((file) => file.endsWith(".gz")))
+            for await (const text of readLogLines(file)) show(text);
+        await followLogFiles(path, show, true);
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
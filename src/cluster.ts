@@ -0,0 +1,62 @@
+import { createRequire } from "node:module";
+import { isMainThread, parentPort, threadId } from "node:worker_threads";
+import * as Types from "./types";
+
+// bun-types doesn't declare node:cluster, so it's required by name with the parts we use typed here
+type Cluster = {
+    isPrimary: boolean;
+    on(event: "message", listener: (worker: unknown, message: any) => void): void;
+};
+
+// Forwarded logs are wrapped in this key, so they can share a channel with the host's own messages
+const forwardKey = "louisLogRecord";
+
+/**
+ * Identifies this process, and thread for worker threads, eg. "4211" or "4211:2"
+ */
+export function currentProcessID(): string {
+    return isMainThread ? String(process.pid) : `${process.pid}:${threadId}`;
+}
+
+/**
+ * Finds where a worker should send its logs, the port from the settings, then the worker thread's parentPort,
+ * then the process's IPC channel (eg. from cluster or child_process.fork)
+ */
+export function workerPort(settings: Types.ClusterSettings): Types.LogPort | undefined {
+    if (settings.port != undefined) return settings.port;
+    if (parentPort != null) return parentPort;
+
+    const ipc = process as { send?: (message: any, callback: (error: Error | null) => void) => unknown };
+    if (ipc.send != undefined) return { send: (message, callback) => ipc.send!(message, callback) };
+
+    return undefined;
+}
+
+/**
+ * Wraps a record to be sent to the primary
+ */
+export function forwardMessage(record: Types.LogRecord) {
+    return { [forwardKey]: record };
+}
+
+/**
+ * Unwraps a record sent by a worker, or undefined if the message is something else.
+ * IPC sends records as JSON, so the date is turned back into a Date
+ */
+export function forwardedRecord(message: any): Types.LogRecord | undefined {
+    const record = message?.[forwardKey];
+    if (record == null || typeof record != "object") return undefined;
+    return { ...record, date: new Date(record.date) };
+}
+
+/**
+ * Calls onMessage with messages from every node:cluster worker, when this is the cluster's primary
+ */
+export function receiveFromCluster(onMessage: (message: any) => void) {
+    const cluster: Cluster = createRequire(import.meta.url)("node:cluster");
+    if (!cluster.isPrimary) {
+        console.error("Logger has the primary role, but isn't the cluster primary");
+        return;
+    }
+    cluster.on("message", (worker, message) => onMessage(message));
+}
@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import * as Types from "./types";
+
+// Context for the current async scope, shared by every logger so one withContext covers them all
+const contextStorage = new AsyncLocalStorage<Types.LogContext>();
+
+/**
+ * Gets the context of the withContext scope we are in, if any
+ */
+export function currentContext(): Types.LogContext {
+    return contextStorage.getStore() ?? {};
+}
+
+/**
+ * Parses a W3C traceparent header, eg. "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01".
+ * Returns undefined if it isn't valid
+ */
+export function parseTraceparent(header: string): Types.TraceContext | undefined {
+    const match = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(-.*)?$/.exec(header.trim().toLowerCase());
+    if (match == null) return undefined;
+
+    const [, version, traceId, spanId, flags, rest] = match;
+    // Version ff is forbidden, version 00 has nothing after the flags, and all zero ids are invalid
+    if (version == "ff" || (version == "00" && rest != undefined)) return undefined;
+    if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+
+    return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) == 1 };
+}
+
+/**
+ * Runs a function with extra context, nested scopes add to the context around them.
+ * A traceparent field is swapped for the traceId, spanId and sampled fields it holds
+ */
+export function runWithContext<T>(context: Types.LogContext, run: () => T): T {
+    const { traceparent, ...fields } = context;
+    const trace = typeof traceparent == "string" ? parseTraceparent(traceparent) : undefined;
+    return contextStorage.run({ ...currentContext(), ...trace, ...fields }, run);
+}
@@ -0,0 +1,145 @@
+import * as Types from "./types";
+
+const splits: Types.LogStorageSettings["splitBy"][] = [
+    "don't split",
+    "year",
+    "month",
+    "day",
+    "hour",
+    "minute",
+    "second",
+];
+const formats: Types.LogFormat[] = ["text", "logfmt", "ecs", "otel", "template"];
+const forms: NonNullable<Types.LogWebhookSettings["form"]>[] = ["discord", "slack", "teams", "teams-adaptive", "json"];
+
+function isOff(value: string): boolean {
+    return ["false", "0", "off", "no"].includes(value.toLowerCase());
+}
+
+/**
+ * Reads settings from LOUIS_LOG_* environment variables, so ops can change them without a redeploy.
+ *
+ * LOUIS_LOG_LEVEL         - minLevel for stdout and files, also stops DEBUG being ignored (eg. "DEBUG", "WARN")
+ * LOUIS_LOG_STDOUT        - "false", "0", "off" or "no" turns stdout off, anything else turns it on
+ * LOUIS_LOG_FORMAT        - Format of stdout and txt files, eg. "logfmt" or "ecs"
+ * LOUIS_LOG_PATH          - Directory to store log files in
+ * LOUIS_LOG_SPLIT         - How to split up log files, eg. "day" or "hour"
+ * LOUIS_LOG_WEBHOOK_URL   - Enables the webhook and sends to this URL
+ * LOUIS_LOG_WEBHOOK_FORM  - Webhook form, eg. "discord" or "slack"
+ * LOUIS_LOG_WEBHOOK_LEVEL - minLevel for the webhook
+ *
+ * The webhook variables change the first webhook destination. Sections with no variables set are left out
+ */
+export function settingsFromEnv(
+    env: { [key: string]: string | undefined } = process.env,
+): Partial<Types.CustomLoggerSettings> & { logWebook?: Partial<Types.LogWebhookSettings> } {
+    const show: Partial<Types.LogFormatSettings> = {};
+    const logStorage: Partial<Types.LogStorageSettings> = {};
+    const logWebook: Partial<Types.LogWebhookSettings> = {};
+
+    if (env.LOUIS_LOG_LEVEL) {
+        const level = env.LOUIS_LOG_LEVEL.toUpperCase();
+        show.minLevel = logStorage.minLevel = level;
+        show.ignoreLevels = logStorage.ignoreLevels = [];
+    }
+
+    if (env.LOUIS_LOG_STDOUT) show.stdoutEnable = !isOff(env.LOUIS_LOG_STDOUT);
+
+    if (env.LOUIS_LOG_FORMAT) {
+        const format = env.LOUIS_LOG_FORMAT.toLowerCase() as Types.LogFormat;
+        if (formats.includes(format)) show.format = format;
+        else console.error("LOUIS_LOG_FORMAT is invalid, expected one of", formats);
+    }
+
+    if (env.LOUIS_LOG_PATH) logStorage.path = env.LOUIS_LOG_PATH;
+
+    if (env.LOUIS_LOG_SPLIT) {
+        const split = env.LOUIS_LOG_SPLIT.toLowerCase() as Types.LogStorageSettings["splitBy"];
+        if (splits.includes(split)) logStorage.splitBy = split;
+        else console.error("LOUIS_LOG_SPLIT is invalid, expected one of", splits);
+    }
+
+    if (env.LOUIS_LOG_WEBHOOK_URL) {
+        try {
+            logWebook.url = new URL(env.LOUIS_LOG_WEBHOOK_URL);
+            logWebook.enable = true;
+        } catch (error) {
+            console.error("LOUIS_LOG_WEBHOOK_URL is not a valid URL");
+        }
+    }
+
+    if (env.LOUIS_LOG_WEBHOOK_FORM) {
+        const form = env.LOUIS_LOG_WEBHOOK_FORM.toLowerCase() as Types.LogWebhookSettings["form"];
+        if (forms.includes(form!)) logWebook.form = form;
+        else console.error("LOUIS_LOG_WEBHOOK_FORM is invalid, expected one of", forms);
+    }
+
+    if (env.LOUIS_LOG_WEBHOOK_LEVEL) logWebook.minLevel = env.LOUIS_LOG_WEBHOOK_LEVEL.toUpperCase();
+
+    // Sections without any variables set are left out, so they aren't rebuilt on reload
+    const settings: Partial<Types.CustomLoggerSettings> & { logWebook?: Partial<Types.LogWebhookSettings> } = {};
+    if (Object.keys(show).length > 0) settings.show = show;
+    if (Object.keys(logStorage).length > 0) settings.logStorage = logStorage;
+    if (Object.keys(logWebook).length > 0) settings.logWebook = logWebook;
+    return settings;
+}
+
+// Sections of the settings that are merged a field at a time
+const mergedSections = [
+    "show",
+    "logStorage",
+    "syslog",
+    "serialize",
+    "redact",
+    "timers",
+    "cluster",
+    "alerts",
+    "levels",
+] as const;
+type MergedSection = (typeof mergedSections)[number];
+
+/**
+ * Merges two sets of custom settings, a section at a time, with later settings winning
+ */
+export function mergeSettings(
+    settings: Partial<Types.CustomLoggerSettings>,
+    overrides: Partial<Types.CustomLoggerSettings>,
+): Partial<Types.CustomLoggerSettings> {
+    const merged: Partial<Types.CustomLoggerSettings> = { ...settings, ...overrides };
+    const mergeSection = <Section extends MergedSection>(section: Section) => {
+        if (settings[section] != undefined || overrides[section] != undefined)
+            merged[section] = { ...settings[section], ...overrides[section] };
+    };
+    for (const section of mergedSections) mergeSection(section);
+    if (settings.logWebook != undefined || overrides.logWebook != undefined)
+        merged.logWebook = mergeWebhookSettings(settings.logWebook, overrides.logWebook);
+    if (settings.transports != undefined && overrides.transports != undefined)
+        merged.transports = [...settings.transports, ...overrides.transports];
+    return merged;
+}
+
+/**
+ * Merges webhook settings, which can be one webhook or a list of destinations.
+ * A list replaces what was there, one webhook's settings are merged into the first destination
+ */
+export function mergeWebhookSettings(
+    settings: Types.CustomLoggerSettings["logWebook"] | undefined,
+    overrides: Types.CustomLoggerSettings["logWebook"] | undefined,
+): Types.CustomLoggerSettings["logWebook"] {
+    if (Array.isArray(overrides)) return overrides;
+    if (!Array.isArray(settings)) return { ...settings, ...overrides };
+
+    const [first, ...rest] = settings;
+    return [{ ...first, ...overrides }, ...rest];
+}
+
+/**
+ * Gets the list of webhook destinations from webhook settings, with defaults for anything left out
+ */
+export function webhookDestinations(
+    settings: Types.CustomLoggerSettings["logWebook"] | undefined,
+    defaults: Types.LogWebhookSettings,
+): Types.LogWebhookSettings[] {
+    const destinations = Array.isArray(settings) ? settings : [settings ?? {}];
+    return destinations.map((destination) => ({ ...defaults, ...destination }));
+}
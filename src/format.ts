@@ -0,0 +1,272 @@
+import * as Types from "./types";
+import { levelSeverity } from "./levels";
+import { flatten } from "./serialize";
+
+const unpainted = (text: string) => text;
+
+// Leaves every part as it is, for txt files
+export const plainPainter: Types.TxtPainter = {
+    date: unpainted,
+    tag: unpainted,
+    context: unpainted,
+    level: unpainted,
+    message: unpainted,
+    data: unpainted,
+};
+
+/**
+ * Shows context as "requestId=abc userId=42", for txt logs and webhooks
+ */
+export function contextText(context: Types.LogContext): string {
+    return Object.entries(context)
+        .map(
+            ([key, value]) =>
+                `${key}=${typeof value == "string" && !/[\s"]/.test(value) ? value : JSON.stringify(value)}`,
+        )
+        .join(" ");
+}
+
+/**
+ * Forms the stdout / txt file version of a log
+ * @param {Types.TxtPainter} paint - *optional* colours each part, used for stdout themes
+ */
+export function formTxtLog(
+    record: Types.LogRecord,
+    settings: Types.LogFormatSettings,
+    paint: Types.TxtPainter = plainPainter,
+): string {
+    let outMessage = "";
+    outMessage += settings.date ? paint.date(`[${record.formattedDate}]`, record.logLevel) + " " : "";
+
+    let tag = "";
+
+    tag += settings.mainProgram ? record.mainProcess : "";
+
+    tag += settings.mainProgram && settings.subProgram ? "." : "";
+
+    tag += settings.subProgram ? record.subProcess : "";
+
+    outMessage += settings.mainProgram || settings.subProgram ? paint.tag(`<${tag}>`, record.logLevel) + " " : "";
+
+    if (settings.context && Object.keys(record.context).length > 0)
+        outMessage += paint.context(`{${contextText(record.context)}}`, record.logLevel) + " ";
+
+    outMessage += settings.level ? paint.level(`[${record.logLevel}]`, record.logLevel) + " " : "";
+
+    if (settings.singleLine) {
+        outMessage += paint.message(oneLine(record.logMessage), record.logLevel);
+        outMessage += record.logData != "" ? " " + paint.data(compactData(record), record.logLevel) : "";
+        return outMessage;
+    }
+
+    outMessage += paint.message(record.logMessage, record.logLevel);
+
+    outMessage += record.logData != "" ? "\n" + paint.data("Log Data:\n" + record.logData, record.logLevel) : "";
+
+    return outMessage;
+}
+
+// Newlines are escaped, so a line based shipper sees one log per line
+function oneLine(text: string): string {
+    return text.replace(/\r?\n/g, "\\n");
+}
+
+// The data as compact JSON, or the string itself, on one line
+function compactData(record: Types.LogRecord): string {
+    return typeof record.data == "string" ? oneLine(record.data) : JSON.stringify(record.data);
+}
+
+// processID is "pid" or "pid:threadId"
+function splitProcessID(processID: string | undefined): { pid?: number; threadId?: number } {
+    if (processID == undefined) return {};
+    const [pid, threadId] = processID.split(":").map(Number);
+    return { pid, threadId };
+}
+
+/**
+ * Replaces "{placeholder}" strings in a template with values from the log, "{level:5}" pads it to 5 characters.
+ * date is ISO 8601, formattedDate uses the dateformat setting. Unknown placeholders are left as they are
+ * @param {boolean} singleLine - *optional* Show data as compact JSON and escape newlines
+ */
+export function fillTemplateString(template: string, record: Types.LogRecord, singleLine: boolean = false): string {
+    const values: { [key: string]: string } = {
+        date: record.date.toISOString(),
+        formattedDate: record.formattedDate,
+        level: record.logLevel,
+        main: record.mainProcess,
+        sub: record.subProcess,
+        message: singleLine ? oneLine(record.logMessage) : record.logMessage,
+        data: singleLine && record.logData != "" ? compactData(record) : record.logData,
+        context: contextText(record.context),
+        pid: record.processID ?? "",
+        durationMs: record.durationMs != undefined ? String(record.durationMs) : "",
+    };
+    values.msg = values.message;
+
+    return template.replace(/\{(\w+)(?::(\d+))?\}/g, (match, key, width) =>
+        values[key] == undefined ? match : values[key].padEnd(Number(width ?? 0)),
+    );
+}
+
+// logfmt values are quoted when they have spaces, quotes, "=" or nothing in them
+function logfmtValue(value: any): string {
+    const text = typeof value == "string" ? value : JSON.stringify(value);
+    return text == "" || /[\s"=\\]/.test(text) ? JSON.stringify(text) : text;
+}
+
+/**
+ * Forms a logfmt line, eg. time=... level=error main="Example API" sub=/users msg="Request failed" userId=42
+ * Context and data are flattened into their own keys, eg. request.path=/users
+ */
+export function formLogfmt(record: Types.LogRecord): string {
+    const fields: [string, any][] = [
+        ["time", record.date.toISOString()],
+        ["level", record.logLevel.toLowerCase()],
+        ["main", record.mainProcess],
+        ["sub", record.subProcess],
+        ["msg", record.logMessage],
+    ];
+    if (Object.keys(record.context).length > 0) flatten(record.context, "", fields);
+    if (record.data != null) flatten(record.data, typeof record.data == "object" ? "" : "data", fields);
+    if (record.durationMs != undefined) fields.push(["durationMs", record.durationMs]);
+    if (record.processID != undefined) fields.push(["pid", record.processID]);
+
+    return fields.map(([key, value]) => `${key.replace(/[\s="]/g, "_")}=${logfmtValue(value)}`).join(" ");
+}
+
+// Version of the Elastic Common Schema the ecs format follows
+export const ecsVersion = "8.11.0";
+
+/**
+ * Forms an Elastic Common Schema log, as one line of JSON.
+ * traceId and spanId from the context become trace.id and span.id, the rest of the context is sent as labels
+ * and logged errors are sent as error.type, error.message and error.stack_trace
+ */
+export function formECS(record: Types.LogRecord): string {
+    const { traceId, spanId, sampled, ...labels } = record.context;
+    const { pid, threadId } = splitProcessID(record.processID);
+
+    const ecs: { [field: string]: any } = {
+        "@timestamp": record.date.toISOString(),
+        "log.level": record.logLevel.toLowerCase(),
+        message: record.logMessage,
+        "ecs.version": ecsVersion,
+        "service.name": record.mainProcess,
+        "log.logger": record.subProcess,
+    };
+    if (pid != undefined) ecs["process.pid"] = pid;
+    if (threadId != undefined) ecs["process.thread.id"] = threadId;
+    if (traceId != undefined) ecs["trace.id"] = traceId;
+    if (spanId != undefined) ecs["span.id"] = spanId;
+    if (Object.keys(labels).length > 0) ecs.labels = labels;
+    if (record.durationMs != undefined) ecs["event.duration"] = Math.round(record.durationMs * 1e6); // Nanoseconds
+
+    const data = record.data;
+    if (data != null && typeof data == "object" && typeof data.message == "string" && typeof data.stack == "string") {
+        ecs["error.type"] = data.name;
+        ecs["error.message"] = data.message;
+        ecs["error.stack_trace"] = data.stack;
+    } else if (data != null) {
+        ecs.data = data;
+    }
+
+    return JSON.stringify(ecs);
+}
+
+/**
+ * Maps a level to an OpenTelemetry SeverityNumber by how severe it is, 1 to 24
+ */
+export function otelSeverity(logLevel: Types.LogLevel): number {
+    const severity = levelSeverity(logLevel);
+    if (severity >= 50) return 21; // FATAL
+    if (severity >= 40) return 17; // ERROR
+    if (severity >= 30) return 13; // WARN
+    if (severity > 20) return 10; // INFO2, for SUCCESS
+    if (severity >= 20) return 9; // INFO
+    if (severity >= 10) return 5; // DEBUG
+    return 1; // TRACE
+}
+
+/**
+ * Forms an OpenTelemetry log record, as one line of JSON.
+ * The main process is the service.name resource, the context and flattened data are attributes, and traceId,
+ * spanId and sampled from the context become traceId, spanId and flags
+ */
+export function formOTel(record: Types.LogRecord): string {
+    const { traceId, spanId, sampled, ...context } = record.context;
+    const { pid, threadId } = splitProcessID(record.processID);
+
+    const attributes: { [key: string]: any } = { "logger.name": record.subProcess };
+    if (Object.keys(context).length > 0) for (const [key, value] of flatten(context)) attributes[key] = value;
+    if (record.data != null)
+        for (const [key, value] of flatten(record.data, typeof record.data == "object" ? "" : "data"))
+            attributes[key] = value;
+    if (record.durationMs != undefined) attributes.durationMs = record.durationMs;
+    if (threadId != undefined) attributes["thread.id"] = threadId;
+
+    const resource: { [key: string]: any } = { "service.name": record.mainProcess };
+    if (pid != undefined) resource["process.pid"] = pid;
+
+    const otel: { [field: string]: any } = {
+        timeUnixNano: (BigInt(record.date.getTime()) * 1000000n).toString(),
+        severityNumber: otelSeverity(record.logLevel),
+        severityText: record.logLevel,
+        body: record.logMessage,
+        attributes,
+        resource,
+    };
+    if (traceId != undefined) otel.traceId = traceId;
+    if (spanId != undefined) otel.spanId = spanId;
+    if (sampled != undefined) otel.flags = sampled ? 1 : 0;
+
+    return JSON.stringify(otel);
+}
+
+/**
+ * Forms the stdout / txt file version of a log in the format from the settings.
+ * Only the "text" format is painted part by part, the others are left for the theme's line colour
+ * @param {Types.TxtPainter} paint - *optional* colours each part of "text" logs
+ */
+export function formatLog(
+    record: Types.LogRecord,
+    settings: Types.LogFormatSettings,
+    paint: Types.TxtPainter = plainPainter,
+): string {
+    switch (settings.format) {
+        case "logfmt":
+            return formLogfmt(record);
+        case "ecs":
+            return formECS(record);
+        case "otel":
+            return formOTel(record);
+        case "template":
+            return fillTemplateString(settings.template, record, settings.singleLine);
+        default:
+            return formTxtLog(record, settings, paint);
+    }
+}
+
+// Bump whenever the shape of LogJSON changes, so parsers can tell old logs from new ones
+export const logJSONSchemaVersion = 4;
+
+/**
+ * Forms the JSON file version of a log
+ */
+export function formLogJSON(record: Types.LogRecord): Types.LogJSON {
+    const logJSON: Types.LogJSON = {
+        schemaVersion: logJSONSchemaVersion,
+        date: record.date,
+        formattedDate: record.formattedDate,
+        mainProcess: record.mainProcess,
+        subProcess: record.subProcess,
+        logLevel: record.logLevel,
+        logMessage: record.logMessage,
+        logData: record.data,
+    };
+
+    if (Object.keys(record.context).length > 0) logJSON.context = record.context;
+    if (record.durationMs != undefined) logJSON.durationMs = record.durationMs;
+    if (record.processID != undefined) logJSON.processID = record.processID;
+
+    return logJSON;
+}
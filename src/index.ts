@@ -1,60 +1,52 @@
-import chalk from "chalk";
 import dateFormat from "dateformat";
 import * as Types from "./types";
-import * as fs from "node:fs";
-import fetch from "node-fetch";
+import { defaultSettings, testModeSettings } from "./settings";
+import { acceptsLevel, levelSeverity, registerLevel } from "./levels";
+import { formatLog } from "./format";
+import { toJSONValue, toText } from "./serialize";
+import { redact, redactPatterns } from "./redact";
+import { registerTheme } from "./theme";
+import { mergeSettings, mergeWebhookSettings, settingsFromEnv, webhookDestinations } from "./env";
+import { currentContext, parseTraceparent, runWithContext } from "./context";
+import { trackLogger, untrackLogger } from "./shutdown";
+import { currentProcessID, forwardedRecord, receiveFromCluster, workerPort } from "./cluster";
+import ConsoleTransport from "./transports/console";
+import FileTransport from "./transports/file";
+import WebhookTransport from "./transports/webhook";
+import ThrottledTransport from "./transports/throttle";
+import SyslogTransport from "./transports/syslog";
+import ForwardTransport from "./transports/forward";
+import AlertTransport from "./transports/alerts";
+import TransportGroup from "./transports/group";
+import MemoryTransport from "./transports/memory";
+import LogReader from "./reader";
+import { expectLogged, expectNotLogged } from "./testing";
 
 import "dotenv/config";
 
-const defaultSettings: Types.LoggerSettings = {
-    show: {
-        stdoutEnable: true,
-        mainProgram: true,
-        subProgram: true,
-        date: true,
-        dateformat: "yyyy-mm-dd HH:MM:ss:l Z",
-        level: true,
-        ignoreLevels: process.env.ENVIRONMENT != "DEV" ? ["DEBUG"] : [],
-    },
-    logStorage: {
-        path: "./logs",
-        json: true,
-        txt: true,
-        splitBy: "day",
-        stratagy: "batch",
-        batch: 6,
-        ignoreLevels: process.env.ENVIRONMENT != "DEV" ? ["DEBUG"] : [],
-    },
-    logWebook: {
-        enable: false,
-        url: undefined,
-        form: "",
-    },
-};
-
 export default class Logger {
-    private formatSettings!: Types.LogFormatSettings;
-    private storageSettings!: Types.LogStorageSettings;
-    private webhookSettings!: Types.LogWebhookSettings;
+    // Settings and buffers, shared by reference with every child logger
+    private shared: Types.LoggerShared = {
+        formatSettings: defaultSettings.show,
+        storageSettings: defaultSettings.logStorage,
+        webhookSettings: [],
+        syslogSettings: defaultSettings.syslog,
+        serializeSettings: defaultSettings.serialize,
+        redactSettings: defaultSettings.redact,
+        timerSettings: defaultSettings.timers,
+        clusterSettings: defaultSettings.cluster,
+        alertSettings: defaultSettings.alerts,
+        transports: [],
+        timers: new Map(),
+        counters: new Map(),
+        builtIn: {},
+        root: this,
+    };
 
     public mainProcess!: string;
     public subProcess!: string;
     public processID!: string;
-
-    // * Might need to add more types for logMessage
-    // TODO add colour theme changing support
-    private colours: { [key: string]: Function } = {
-        FATAL: chalk.bgRedBright,
-        FATALRATE: chalk.bgRedBright,
-        ERROR: chalk.red,
-        WARN: chalk.yellow,
-        SUCCESS: chalk.green,
-        INFO: chalk.blue,
-        DEBUG: chalk.magenta,
-    };
-
-    private logBuffer: Types.LogBufferItem[] = [];
-    private webhookBuffer: Types.WebhookBufferItem[] = [];
+    public context: Types.LogContext = {};
 
     /**
      * Creates a new Logger
@@ -74,10 +66,16 @@ export default class Logger {
         logger.debug("This is a debug message");
     */
     constructor(mainProcess: string, subProcess: string, userSettings: Partial<Types.CustomLoggerSettings> = {}) {
+        // LOUIS_LOG_* environment variables win over settings from code, testMode wins over both
+        userSettings = userSettings.testMode
+            ? mergeSettings(userSettings, testModeSettings)
+            : mergeSettings(userSettings, settingsFromEnv());
+
         // Process tags
         try {
             this.mainProcess = mainProcess;
             this.subProcess = subProcess;
+            this.processID = currentProcessID();
         } catch (error) {
             console.error("There was an issue with initialising process names", error);
             process.exit(1);
@@ -85,7 +83,7 @@ export default class Logger {
 
         // Apply Defualt settings
         try {
-            this.formatSettings = {
+            this.shared.formatSettings = {
                 ...defaultSettings.show,
                 ...userSettings.show,
             };
@@ -95,7 +93,7 @@ export default class Logger {
         }
 
         try {
-            this.storageSettings = {
+            this.shared.storageSettings = {
                 ...defaultSettings.logStorage,
                 ...userSettings.logStorage,
             };
@@ -109,10 +107,7 @@ export default class Logger {
         }
 
         try {
-            this.webhookSettings = {
-                ...defaultSettings.logWebook,
-                ...userSettings.logWebook,
-            };
+            this.shared.webhookSettings = webhookDestinations(userSettings.logWebook, defaultSettings.logWebook);
         } catch (error) {
             console.error(
                 "There was an issue with initialising settings: webhook Settings",
@@ -122,411 +117,655 @@ export default class Logger {
             process.exit(1);
         }
 
-        // Finished initialising
         try {
-            this.success(`Initialised Logger`);
-
-            this.debug("Settings:\n" + JSON.stringify(this.formatSettings, null, 4));
-            this.debug("\n" + JSON.stringify(this.storageSettings, null, 4));
-            this.debug("\n" + JSON.stringify(this.webhookSettings, null, 4) + "\n");
+            this.shared.syslogSettings = {
+                ...defaultSettings.syslog,
+                ...userSettings.syslog,
+            };
         } catch (error) {
-            console.error("There was an issue with logging settings");
+            console.error("There was an issue with initialising settings: syslog Settings", userSettings.syslog, error);
             process.exit(1);
         }
 
         try {
-            process.on("beforeExit", () => this.exit("Before exit"));
-            process.on("exit", () => this.exit("Process exit"));
-            process.on("SIGINT", () => this.exit("SIGINT"));
-            process.on("SIGTERM", () => this.exit("SIGTERM"));
-            process.on("uncaughtException", async (err) => {
-                console.error("Uncaught exception:", err);
-                await this.exit("uncaughtException");
-            });
-        } catch (error) {}
-    }
-    private sendLog(logLevel: Types.LogLevel, logMessage: any, logData: any) {
-        try {
-            const currentTime = new Date();
-            const formattedDate: string = dateFormat(currentTime, this.formatSettings.dateformat);
-            const logMessageString = this.handleLogDatatype(logMessage);
-            const logDataString = this.handleLogDatatype(logData);
-
-            const txtLog = this.formTxtLog(formattedDate, logMessageString, logLevel, logDataString);
-
-            if (this.formatSettings.stdoutEnable && !this.formatSettings.ignoreLevels.includes(logLevel))
-                console.log(this.colours[logLevel](txtLog));
-
-            if (
-                (this.storageSettings.json || this.storageSettings.txt) &&
-                !this.storageSettings.ignoreLevels.includes(logLevel)
-            )
-                this.logToFile(currentTime, formattedDate, logMessageString, logLevel, logDataString, txtLog);
-
-            if (this.webhookSettings.enable)
-                this.sendWebhook(currentTime, formattedDate, logMessageString, logLevel, logDataString, txtLog);
+            this.shared.serializeSettings = {
+                ...defaultSettings.serialize,
+                ...userSettings.serialize,
+            };
         } catch (error) {
-            console.error("There was an issue logging data", error);
+            console.error(
+                "There was an issue with initialising settings: serialize Settings",
+                userSettings.serialize,
+                error,
+            );
+            process.exit(1);
         }
-    }
-    private sendWebhook(
-        currentTime: Date,
-        formattedDate: string,
-        logMessageString: string,
-        logLevel: Types.LogLevel,
-        logDataString: string,
-        logTxt: string,
-    ) {
-        if (logLevel == "FATALRATE") return; // ! Very important. This prevents a discord error due to rate limiting from sending another message and further rate limiting.
-        if (this.webhookSettings.url == undefined) return;
-        if (this.webhookSettings.form != "discord") {
-            this.error("Currently only discord webhooks have been implemented");
-            return;
+
+        try {
+            this.shared.redactSettings = {
+                ...defaultSettings.redact,
+                ...userSettings.redact,
+            };
+        } catch (error) {
+            console.error("There was an issue with initialising settings: redact Settings", userSettings.redact, error);
+            process.exit(1);
         }
 
-        let newEmbed: Types.WebhookBufferItem = {
-            title: `<${this.mainProcess}.${this.subProcess}> [${logLevel}] ${logMessageString}`,
-            description:
-                logDataString != ""
-                    ? `\`\`\`json\n${
-                          logDataString.length > 4000
-                              ? "The data provided is too long for an embed. Check file based or stdout based logs."
-                              : logDataString
-                      }\n\`\`\``
-                    : "",
-            color: null,
-            footer: { text: formattedDate },
-        };
+        try {
+            this.shared.timerSettings = {
+                ...defaultSettings.timers,
+                ...userSettings.timers,
+            };
+        } catch (error) {
+            console.error("There was an issue with initialising settings: timer Settings", userSettings.timers, error);
+            process.exit(1);
+        }
 
-        this.webhookBuffer.push(newEmbed);
+        try {
+            this.shared.clusterSettings = {
+                ...defaultSettings.cluster,
+                ...userSettings.cluster,
+            };
+        } catch (error) {
+            console.error(
+                "There was an issue with initialising settings: cluster Settings",
+                userSettings.cluster,
+                error,
+            );
+            process.exit(1);
+        }
 
-        if (this.webhookBuffer.length > 8) {
-            this.fatalRate("Webhook Buffer too large to send in one message!", this.webhookBuffer.length);
-            this.webhookBuffer = []; // clear buffer :o
-            // console.log(this.webhookBuffer); // * DEBUG LOG
-            return;
+        try {
+            this.shared.alertSettings = {
+                ...defaultSettings.alerts,
+                ...userSettings.alerts,
+            };
+        } catch (error) {
+            console.error("There was an issue with initialising settings: alert Settings", userSettings.alerts, error);
+            process.exit(1);
         }
-        if (this.webhookBuffer.length == 8) {
-            // console.log("req:", {
-            //     method: "POST",
-            //     headers: {
-            //         "Content-Type": "application/json",
-            //     },
-            //     body: JSON.stringify({
-            //         username: `${this.mainProcess}.${this.subProcess}`,
-            //         content: null,
-            //         embeds: this.webhookBuffer,
-            //         attachments: [],
-            //     }),
-            // }); // * DEBUG LOG
-            fetch(this.webhookSettings.url, {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                },
-                body: JSON.stringify({
-                    username: `${this.mainProcess}.${this.subProcess}`,
-                    content: null,
-                    embeds: this.webhookBuffer,
-                    attachments: [],
-                }),
-            })
-                .then((res) => {
-                    if (res.status != 204)
-                        this.fatalRate("Unexpected response from webhook", {
-                            status: res.status,
-                            message: res.statusText,
-                        });
-                    this.webhookBuffer = []; // clear buffer
-                })
-                .catch((err) => {
-                    this.fatalRate("Webhook failed to send", { error: err });
+
+        // Custom levels, "AUDIT" gets logger.audit()
+        try {
+            for (const [name, level] of Object.entries(userSettings.levels ?? {})) {
+                registerLevel(name, level);
+
+                const method = name.toLowerCase();
+                if (method in this) {
+                    console.error("Custom level can't replace an existing method", name);
+                    continue;
+                }
+                Object.defineProperty(this, method, {
+                    value: function (this: Logger, message: any, data?: any) {
+                        return this.sendLog(name, message, data);
+                    },
                 });
-            this.webhookBuffer = []; // clear buffer
+            }
+        } catch (error) {
+            console.error("There was an issue with initialising custom levels", userSettings.levels, error);
+            process.exit(1);
         }
-    }
-    private formTxtLog(formattedDate: string, logMessage: string, logLevel: string, logDataString: string): string {
-        let outMessage = "";
-        outMessage += this.formatSettings.date ? `[${formattedDate}] ` : "";
 
-        outMessage += this.formatSettings.mainProgram || this.formatSettings.subProgram ? "<" : "";
+        // Built in transports, followed by any the user has provided.
+        // Workers have none of their own, every log goes to the primary so only one process writes the files
+        try {
+            const clusterSettings = this.shared.clusterSettings;
+            if (clusterSettings.role == "worker") {
+                const port = workerPort(clusterSettings);
+                if (port != undefined) this.addTransport(new ForwardTransport(port));
+                else {
+                    console.error("Logger has the worker role, but there is no primary to send logs to");
+                    this.shared.clusterSettings = { ...clusterSettings, role: "standalone" };
+                }
+            }
+            if (clusterSettings.role == "primary") receiveFromCluster((message) => this.receive(message));
+
+            for (const kind of ["console", "file", "webhook", "syslog", "alerts"] as const) {
+                const transport = this.createBuiltIn(kind);
+                this.shared.builtIn[kind] = transport;
+                if (transport != undefined) this.addTransport(transport);
+            }
 
-        outMessage += this.formatSettings.mainProgram ? this.mainProcess : "";
+            for (const transport of userSettings.transports ?? []) this.addTransport(transport);
+        } catch (error) {
+            console.error("There was an issue with initialising transports", error);
+            process.exit(1);
+        }
 
-        outMessage += this.formatSettings.mainProgram && this.formatSettings.subProgram ? "." : "";
+        // Finished initialising
+        try {
+            this.success(`Initialised Logger`);
 
-        outMessage += this.formatSettings.subProgram ? this.subProcess : "";
+            this.debug("Settings:\n" + JSON.stringify(this.shared.formatSettings, null, 4));
+            this.debug("\n" + JSON.stringify(this.shared.storageSettings, null, 4));
+            // Webhook URLs and headers hold tokens, so they're left out
+            const webhooks = this.shared.webhookSettings.map(({ url, headers, ...destination }) => destination);
+            this.debug("\n" + JSON.stringify(webhooks, null, 4) + "\n");
+        } catch (error) {
+            console.error("There was an issue with logging settings");
+            process.exit(1);
+        }
 
-        outMessage += this.formatSettings.mainProgram || this.formatSettings.subProgram ? "> " : "";
+        // Added after initialising, so tests only see their own logs
+        if (userSettings.testMode) {
+            this.shared.builtIn.memory = new MemoryTransport();
+            this.addTransport(this.shared.builtIn.memory);
+        }
 
-        outMessage += this.formatSettings.level ? `[${logLevel}] ` : "";
+        try {
+            trackLogger(
+                this,
+                userSettings.handleProcessSignals ?? defaultSettings.handleProcessSignals,
+                userSettings.reloadOnSighup ?? defaultSettings.reloadOnSighup,
+            );
+        } catch (error) {}
+    }
 
-        outMessage += logMessage;
+    /**
+     * Creates a new Logger with methods for its custom levels, typed so they autocomplete
+     * @example
+        const logger = Logger.withLevels("Example API", "/users", {
+            levels: { AUDIT: { severity: 35, colour: "#00ffff" }, TRACE: { severity: 5, colour: "#808080" } },
+        });
 
-        outMessage += logDataString != "" ? "\nLog Data:\n" + logDataString : "";
+        logger.audit("User deleted", { id: 1 });
+    */
+    static withLevels<Levels extends string>(
+        mainProcess: string,
+        subProcess: string,
+        userSettings: Partial<Types.CustomLoggerSettings> & { levels: { [Level in Levels]: Types.LevelSettings } },
+    ): Logger & Types.LevelMethods<Levels> {
+        return new Logger(mainProcess, subProcess, userSettings) as Logger & Types.LevelMethods<Levels>;
+    }
 
-        return outMessage;
+    /**
+     * Creates a child logger for another subprocess of the same main process.
+     * The child shares this logger's settings, file buffer, webhook queue and shutdown hook.
+     * @param {string} subProcess - The name of the child's subprocess
+     * @param {Types.LogContext} extraContext - *optional* fields added to the inherited context
+     * @example
+        const users = logger.child("/users", { route: "users" });
+        const admin = users.child("/users/admin", { admin: true }); // context: { route: "users", admin: true }
+    */
+    child(subProcess: string, extraContext: Types.LogContext = {}): this {
+        const child: this = Object.create(this);
+        child.subProcess = subProcess;
+        child.context = { ...this.context, ...extraContext };
+        return child;
     }
 
-    private logToFile(
-        currentTime: Date,
-        formattedDate: string,
-        logMessageString: string,
-        logLevel: string,
-        logDataString: string,
-        logTxt: string,
-    ) {
-        // Form log JSON
+    /**
+     * Runs a function with context that is added to every log inside it, from any logger, including after awaits.
+     * Pass an incoming request's traceparent header to log its traceId and spanId.
+     * @param {Types.LogContext} context - Fields to add, eg. requestId, userId or traceparent
+     * @param {() => T} run - The function to run, its result is returned
+     * @example
+        app.use((req, res, next) =>
+            logger.withContext({ requestId: crypto.randomUUID(), traceparent: req.headers.traceparent }, next),
+        );
+    */
+    withContext<T>(context: Types.LogContext, run: () => T): T {
+        return runWithContext(context, run);
+    }
 
-        const logJSON: Types.LogJSON = {
-            date: currentTime,
-            formattedDate: formattedDate,
-            mainProcess: this.mainProcess,
-            subProcess: this.subProcess,
-            logLevel: logLevel,
-            logMessage: logMessageString,
-            logData: logDataString,
+    /**
+     * Changes settings on a running logger, and all of its children.
+     * Built in transports whose settings changed are flushed, closed and replaced, so changing the storage path
+     * or splitBy moves new logs to the new files.
+     * @param {Partial<Types.CustomLoggerSettings>} userSettings - The settings to change, anything left out stays the same
+     * @example
+        await logger.configure({ show: { minLevel: "DEBUG", ignoreLevels: [] } });
+    */
+    async configure(userSettings: Partial<Types.CustomLoggerSettings>) {
+        const shared = this.shared;
+        if (shared.closing != undefined) return; // A closed logger keeps its transports closed
+
+        if (userSettings.show != undefined) shared.formatSettings = { ...shared.formatSettings, ...userSettings.show };
+        if (userSettings.logStorage != undefined)
+            shared.storageSettings = { ...shared.storageSettings, ...userSettings.logStorage };
+        if (userSettings.logWebook != undefined)
+            shared.webhookSettings = webhookDestinations(
+                mergeWebhookSettings(shared.webhookSettings, userSettings.logWebook),
+                defaultSettings.logWebook,
+            );
+        if (userSettings.syslog != undefined)
+            shared.syslogSettings = { ...shared.syslogSettings, ...userSettings.syslog };
+        if (userSettings.serialize != undefined)
+            shared.serializeSettings = { ...shared.serializeSettings, ...userSettings.serialize };
+        if (userSettings.redact != undefined)
+            shared.redactSettings = { ...shared.redactSettings, ...userSettings.redact };
+        if (userSettings.timers != undefined)
+            shared.timerSettings = { ...shared.timerSettings, ...userSettings.timers };
+        if (userSettings.alerts != undefined)
+            shared.alertSettings = { ...shared.alertSettings, ...userSettings.alerts };
+
+        const changed = {
+            console: userSettings.show != undefined,
+            file: userSettings.logStorage != undefined,
+            webhook: userSettings.logWebook != undefined,
+            syslog: userSettings.syslog != undefined,
+            // Alert rules can send to named webhook destinations, so they follow the webhooks too
+            alerts: userSettings.alerts != undefined || userSettings.logWebook != undefined,
         };
+        const closing: Promise<void>[] = [];
 
-        let logJSONString: string = "";
+        for (const kind of ["console", "file", "webhook", "syslog", "alerts"] as const) {
+            if (!changed[kind]) continue;
 
-        try {
-            logJSONString = JSON.stringify(logJSON);
-        } catch (error) {
-            this.error("Error converting logJSON to string", { error: error, data: logJSON });
-        }
+            // Swap the new transport in first, so no logs are missed whilst the old one closes
+            const previous = shared.builtIn[kind];
+            const replacement = this.createBuiltIn(kind);
+            const index = previous != undefined ? shared.transports.indexOf(previous) : -1;
 
-        // storing
-        if (this.storageSettings.stratagy == "batch" && this.storageSettings.batch > 1) {
-            // Update buffer
-            let bufferLength: number = this.logBuffer.push({ logTXT: logTxt, logJSONString: logJSONString });
+            if (index != -1 && replacement != undefined) shared.transports.splice(index, 1, replacement);
+            else if (index != -1) shared.transports.splice(index, 1);
+            else if (replacement != undefined) shared.transports.push(replacement);
 
-            // if we are at batch count, send to file
-            if (bufferLength >= this.storageSettings.batch) {
-                this.extractBuffer(currentTime);
-            }
-        } else {
-            // send file every time
-            let { dirLocation, logLocation } = this.generatePaths(currentTime);
+            shared.builtIn[kind] = replacement;
+            if (previous != undefined) closing.push(previous.close());
+        }
 
-            if (!fs.existsSync(dirLocation)) {
-                fs.mkdirSync(dirLocation, { recursive: true });
-            }
+        await Promise.all(closing);
+    }
 
-            if (this.storageSettings.txt) {
-                const txtWriteStream = fs.createWriteStream(logLocation + "txt.log", { flags: "a" });
-                txtWriteStream.write(logTxt + "\n");
-                txtWriteStream.end();
-            }
+    private createBuiltIn(kind: "console" | "file" | "webhook" | "syslog" | "alerts"): Types.Transport | undefined {
+        const { formatSettings, storageSettings, webhookSettings, syslogSettings, alertSettings, clusterSettings } =
+            this.shared;
+        if (clusterSettings.role == "worker") return undefined;
+
+        const report = (logLevel: Types.LogLevel, message: any, data?: any) => this.sendLog(logLevel, message, data);
+        // The txt files use the stdout format, unless the storage settings have their own
+        const formatter = (record: Types.LogRecord) => {
+            const { format, template, singleLine } = this.shared.storageSettings;
+            return formatLog(record, {
+                ...this.shared.formatSettings,
+                format: format ?? this.shared.formatSettings.format,
+                template: template ?? this.shared.formatSettings.template,
+                singleLine: singleLine ?? this.shared.formatSettings.singleLine,
+            });
+        };
 
-            if (this.storageSettings.json) {
-                const jsonWriteStream = fs.createWriteStream(logLocation + "json.log", { flags: "a" });
-                jsonWriteStream.write(logJSONString + "\n");
-                jsonWriteStream.end();
+        // Each output can have its own sampling, deduplication and rate limits
+        const throttled = (transport: Types.Transport, throttle?: Partial<Types.ThrottleSettings>) =>
+            throttle != undefined ? new ThrottledTransport(transport, throttle) : transport;
+
+        switch (kind) {
+            case "console":
+                if (!formatSettings.stdoutEnable) return undefined;
+                return throttled(
+                    new ConsoleTransport(
+                        { minLevel: formatSettings.minLevel, ignoreLevels: formatSettings.ignoreLevels },
+                        formatSettings,
+                    ),
+                    formatSettings.throttle,
+                );
+            case "file":
+                if (!storageSettings.json && !storageSettings.txt) return undefined;
+                return throttled(new FileTransport(storageSettings, { formatter, report }), storageSettings.throttle);
+            case "webhook": {
+                // Each destination has its own buffer, filters and throttling
+                const webhooks = webhookSettings
+                    .filter((destination) => destination.enable)
+                    .map((destination) =>
+                        throttled(new WebhookTransport(destination, { report }), destination.throttle),
+                    );
+                if (webhooks.length == 0) return undefined;
+                return webhooks.length == 1 ? webhooks[0] : new TransportGroup(webhooks);
+            }
+            case "syslog":
+                if (!syslogSettings.enable) return undefined;
+                return throttled(new SyslogTransport(syslogSettings, { report }), syslogSettings.throttle);
+            case "alerts": {
+                if (alertSettings.rules.length == 0) return undefined;
+                // Alert rules can also send to named webhook destinations
+                const named = webhookSettings.filter((destination) => destination.name != undefined);
+                const targets = Object.fromEntries(named.map((destination) => [destination.name, destination]));
+                return new AlertTransport(
+                    { ...alertSettings, targets: { ...targets, ...alertSettings.targets } },
+                    { report },
+                );
             }
         }
     }
 
-    private generatePaths(currentTime: Date) {
-        let logLocation = "";
-        let dirLocation = this.storageSettings.path;
-        //        dateformat: "yyyy-mm-dd HH:MM:ss:l Z",
-        switch (this.storageSettings.splitBy) {
-            case "don't split":
-                dirLocation += `/`;
-                logLocation += dirLocation + "logs.";
-                break;
-            case "year":
-                dirLocation += `/`;
-                logLocation += `${dateFormat(currentTime, "yyyy")}.`;
-                break;
-            case "month":
-                dirLocation += `/${dateFormat(currentTime, "yyyy")}/`;
-                logLocation += dirLocation + `${dateFormat(currentTime, "mm")}.`;
-                break;
-            case "day":
-                dirLocation += `/${dateFormat(currentTime, "yyyy/mm")}/`;
-                logLocation += dirLocation + `${dateFormat(currentTime, "dd")}.`;
-                break;
-            case "hour":
-                dirLocation += `/${dateFormat(currentTime, "yyyy/mm/dd")}/`;
-                logLocation += dirLocation + `${dateFormat(currentTime, "HH")}.`;
-                break;
-            case "minute":
-                dirLocation += `/${dateFormat(currentTime, "yyyy/mm/dd/HH")}/`;
-                logLocation += dirLocation + `${dateFormat(currentTime, "MM")}.`;
-                break;
-            case "second":
-                dirLocation += `/${dateFormat(currentTime, "yyyy/mm/dd/HH/MM")}/`;
-                logLocation += dirLocation + `${dateFormat(currentTime, "ss")}.`;
-                break;
-            default:
-                this.error("Logger split by value is invalid", this.storageSettings.splitBy);
-                break;
-        }
-        return { dirLocation, logLocation };
+    /**
+     * Adds a transport to this logger and all of its children
+     * @param {Types.Transport} transport - The transport to send logs to
+     */
+    addTransport(transport: Types.Transport) {
+        this.shared.transports.push(transport);
     }
 
-    private extractBuffer(currentTime: Date) {
-        let { dirLocation, logLocation } = this.generatePaths(currentTime);
-
-        if (!fs.existsSync(dirLocation)) {
-            fs.mkdirSync(dirLocation, { recursive: true });
-        }
+    /**
+     * Removes a transport, flushing anything it has buffered
+     * @param {Types.Transport} transport - A transport previously added to this logger
+     */
+    async removeTransport(transport: Types.Transport) {
+        const index = this.shared.transports.indexOf(transport);
+        if (index == -1) return;
 
-        let txtUnpacked: string = "";
-        let jsonUnpacked: string = "";
+        this.shared.transports.splice(index, 1);
+        await transport.close();
+    }
 
-        let bufferLength = this.logBuffer.length;
+    /**
+     * Writes logs sent by workers with this logger's outputs, for worker threads and child processes.
+     * node:cluster workers are received from automatically by a logger with the primary role
+     * @param {Types.LogSource} source - A worker_threads Worker or MessagePort, or a ChildProcess with IPC
+     * @example
+        const worker = new Worker("./worker.ts"); // new Logger(..., { cluster: { role: "worker" } }) inside
+        logger.receiveFrom(worker);
+    */
+    receiveFrom(source: Types.LogSource) {
+        source.on("message", (message) => this.receive(message));
+    }
 
-        for (let i = 0; i < bufferLength; i++) {
-            let logItem = this.logBuffer.shift();
-            if (logItem == undefined) {
-                this.error("Log buffer item is empty whilst trying to read from it");
-            } else {
-                txtUnpacked += logItem.logTXT + "\n";
-                jsonUnpacked += logItem.logJSONString + "\n";
-            }
-        }
+    // Other messages on the same channel are left for the host
+    private receive(message: any) {
+        const record = forwardedRecord(message);
+        if (record == undefined || this.shared.closing != undefined) return;
+        this.writeRecord(record);
+    }
 
-        if (this.storageSettings.txt) {
-            const txtWriteStream = fs.createWriteStream(logLocation + "txt.log", { flags: "a" });
-            txtWriteStream.write(txtUnpacked);
-            txtWriteStream.end();
-        }
+    private sendLog(logLevel: Types.LogLevel, logMessage: any, logData: any, durationMs?: number): Promise<void> {
+        try {
+            const currentTime = new Date();
+            // Redacted here, once, so no transport ever sees the original values
+            const { serializeSettings, redactSettings } = this.shared;
+            const message = redact(toJSONValue(logMessage, serializeSettings), redactSettings);
+            const data = redact(toJSONValue(logData, serializeSettings), redactSettings);
+            const record: Types.LogRecord = {
+                date: currentTime,
+                formattedDate: dateFormat(currentTime, this.shared.formatSettings.dateformat),
+                mainProcess: this.mainProcess,
+                subProcess: this.subProcess,
+                logLevel: logLevel,
+                logMessage: toText(message),
+                logData: toText(data),
+                data: data,
+                // Context from withContext wins over the logger's own
+                context: redact(
+                    toJSONValue({ ...this.context, ...currentContext() }, serializeSettings),
+                    redactSettings,
+                ),
+                processID: this.processID,
+            };
+            if (durationMs != undefined) record.durationMs = durationMs;
 
-        if (this.storageSettings.json) {
-            const jsonWriteStream = fs.createWriteStream(logLocation + "json.log", { flags: "a" });
-            jsonWriteStream.write(jsonUnpacked);
-            jsonWriteStream.end();
+            return this.writeRecord(record);
+        } catch (error) {
+            console.error("There was an issue logging data", error);
+            return Promise.resolve();
         }
     }
 
-    private handleLogDatatype(logData: any): string {
-        if (logData == undefined) return "";
-
-        const dataType = typeof logData;
-
-        if (dataType == "string") return logData;
-
-        if (["bigint", "boolean", "number", "symbol", "function"].includes(dataType)) return logData.toString();
+    private writeRecord(record: Types.LogRecord): Promise<void> {
+        const waitingFor: Promise<void>[] = [];
 
-        if (dataType == "object") {
+        for (const transport of this.shared.transports) {
+            if (!acceptsLevel(transport, record.logLevel)) continue;
             try {
-                return JSON.stringify(logData, null, 4);
+                const written = transport.write(record);
+                if (written instanceof Promise)
+                    waitingFor.push(
+                        written.catch((error) => console.error("There was an issue writing to a transport", error)),
+                    );
             } catch (error) {
-                this.error("Datatype of object is not json", { dataType: dataType, data: logData });
-                return "";
+                console.error("There was an issue writing to a transport", error);
             }
         }
 
-        this.error("Datatype Error", { dataType: dataType, data: logData });
-        return "Datatype error";
+        return Promise.all(waitingFor).then(() => {});
     }
 
-    // Print methods
-
-    fatal(message: any, data?: any) {
-        this.sendLog("FATAL", message, data);
+    /**
+     * Logs at any level, including custom ones
+     * @param {Types.LogLevel} logLevel - The level to log at, eg. "AUDIT"
+     */
+    logAt(logLevel: Types.LogLevel, message: any, data?: any) {
+        return this.sendLog(logLevel, message, data);
     }
 
-    private fatalRate(message: any, data?: any) {
-        this.sendLog("FATALRATE", message, data);
+    // Print methods, await them to wait for transports that are holding back (eg. a full file queue)
+
+    fatal(message: any, data?: any) {
+        return this.sendLog("FATAL", message, data);
     }
 
     error(message: any, data?: any) {
-        this.sendLog("ERROR", message, data);
+        return this.sendLog("ERROR", message, data);
     }
 
     err = this.error;
 
     warn(message: any, data?: any) {
-        this.sendLog("WARN", message, data);
+        return this.sendLog("WARN", message, data);
     }
 
     success(message: any, data?: any) {
-        this.sendLog("SUCCESS", message, data);
+        return this.sendLog("SUCCESS", message, data);
     }
 
     // Info and log do the same thing
     info(message: any, data?: any) {
-        this.sendLog("INFO", message, data);
+        return this.sendLog("INFO", message, data);
     }
 
     log = this.info;
 
     debug(message: any, data?: any) {
-        this.sendLog("DEBUG", message, data);
+        return this.sendLog("DEBUG", message, data);
+    }
+
+    // Timers and counters
+
+    /**
+     * Starts a timer, finish it with timeEnd
+     * @param {string} label - Names the timer, shared with child loggers
+     * @example
+        logger.time("db query");
+        await db.query(sql);
+        logger.timeEnd("db query"); // [INFO] db query: 12.34ms
+    */
+    time(label: string) {
+        if (this.shared.timers.has(label)) {
+            this.warn(`Timer "${label}" already exists`);
+            return;
+        }
+        this.shared.timers.set(label, performance.now());
+    }
+
+    /**
+     * Logs how long a timer took, with the time in durationMs, and stops it
+     * @param {string} label - The label given to time
+     * @param {Types.LogLevel} logLevel - *optional* Level to log at, slow timers can be raised to the timers slowLevel
+     * @param {any} data - *optional* Data to log with it
+     */
+    timeEnd(label: string, logLevel?: Types.LogLevel, data?: any) {
+        const started = this.shared.timers.get(label);
+        if (started == undefined) return this.warn(`Timer "${label}" does not exist`);
+
+        this.shared.timers.delete(label);
+        return this.logDuration(label, performance.now() - started, logLevel, data);
+    }
+
+    /**
+     * Starts a timer without a label, call the function it returns once finished
+     * @example
+        const done = logger.startTimer();
+        await sendEmail(user);
+        done("Sent welcome email", { userId: user.id }); // [INFO] Sent welcome email: 250.12ms
+    */
+    startTimer(): (message: string, data?: any, logLevel?: Types.LogLevel) => Promise<void> {
+        const started = performance.now();
+        return (message, data, logLevel) => this.logDuration(message, performance.now() - started, logLevel, data);
+    }
+
+    private logDuration(message: string, duration: number, logLevel?: Types.LogLevel, data?: any) {
+        const { level, slowMs, slowLevel } = this.shared.timerSettings;
+        const durationMs = Math.round(duration * 100) / 100;
+
+        let timerLevel = logLevel ?? level;
+        if (slowMs > 0 && durationMs >= slowMs && levelSeverity(slowLevel) > levelSeverity(timerLevel))
+            timerLevel = slowLevel;
+
+        return this.sendLog(timerLevel, `${message}: ${durationMs}ms`, data, durationMs);
+    }
+
+    /**
+     * Counts how many times it has been called with a label, and logs the count
+     * @param {string} label - *optional* Names the counter, shared with child loggers
+     * @param {Types.LogLevel} logLevel - *optional* Level to log at, defaults to the timers level
+     */
+    count(label: string = "default", logLevel?: Types.LogLevel) {
+        const count = (this.shared.counters.get(label) ?? 0) + 1;
+        this.shared.counters.set(label, count);
+        return this.sendLog(logLevel ?? this.shared.timerSettings.level, `${label}: ${count}`, null);
+    }
+
+    /**
+     * Sets a counter back to 0
+     */
+    countReset(label: string = "default") {
+        this.shared.counters.delete(label);
     }
 
     // Closing process
 
     /**
-     * Forces a cleanup and exit, use wisely.
-     * Automatically called on exit or uncaught exception.
+     * Sends anything the transports have buffered
+     */
+    async flush() {
+        await Promise.all(this.shared.transports.map((transport) => transport.flush()));
+    }
+
+    /**
+     * The logs kept by a logger with testMode, undefined otherwise
+     */
+    get memory(): MemoryTransport | undefined {
+        const memory = this.shared.builtIn.memory;
+        return memory instanceof MemoryTransport ? memory : undefined;
+    }
+
+    /**
+     * Flushes every transport, so throttled summaries are written, then returns the logs kept by testMode and
+     * forgets them
+     * @example
+        await handler(request);
+        const logs = await logger.drain();
+        expect(logs.map((log) => log.logLevel)).toEqual(["INFO", "WARN"]);
+    */
+    async drain(): Promise<Types.LogJSON[]> {
+        await this.flush();
+        return this.memory?.drain() ?? [];
+    }
+
+    /**
+     * Reads logs back from this logger's JSON files, once anything buffered has been written
+     * @param {Types.LogFilter} filter - *optional* Time range, levels, processes and message or data checks
+     * @example
+        for await (const log of logger.query({ since: new Date(Date.now() - 60 * 60 * 1000), levels: ["ERROR", "FATAL"] })) {
+            errors.push(log);
+        }
+     */
+    async *query(filter: Types.LogFilter = {}): AsyncGenerator<Types.LogJSON, void, undefined> {
+        await this.shared.builtIn.file?.flush();
+        yield* new LogReader(this.shared.storageSettings.path).query(filter);
+    }
+
+    /**
+     * Counts of logs sent, retried and dropped across all webhook transports
+     */
+    webhookStats(): Types.WebhookStats {
+        const stats: Types.WebhookStats = { sent: 0, retried: 0, dropped: 0 };
+        const transports = this.shared.transports.flatMap((transport) =>
+            transport instanceof TransportGroup ? transport.transports : [transport],
+        );
+        for (let transport of transports) {
+            if (transport instanceof ThrottledTransport) transport = transport.inner;
+            if (!(transport instanceof WebhookTransport)) continue;
+            stats.sent += transport.stats.sent;
+            stats.retried += transport.stats.retried;
+            stats.dropped += transport.stats.dropped;
+        }
+        return stats;
+    }
+
+    /**
+     * Flushes and closes every output, without exiting. Safe to call more than once, and from any child.
+     * Called before the process exits, and on signals and uncaught errors with handleProcessSignals.
+     * @example
+        server.close(async () => {
+            await logger.close();
+            process.exit(0);
+        });
+    */
+    close(): Promise<void> {
+        const shared = this.shared;
+        if (shared.closing == undefined) {
+            untrackLogger(shared.root);
+            shared.closing = (async () => {
+                for (const transport of shared.transports) {
+                    try {
+                        await transport.close();
+                    } catch (error) {
+                        console.error("There was an issue closing a transport", error);
+                    }
+                }
+            })();
+        }
+        return shared.closing;
+    }
+
+    /**
+     * Forces a cleanup and exit, use wisely. Exits with process.exitCode once every output is closed.
      *
      * Ensures that all logs in memory are dealt with before closing.
      */
     async exit(reason?: string) {
         console.log("Shutting down gracefully with reason: ", reason);
-        if (this.storageSettings.stratagy == "batch") {
-            console.log("Clearing file buffer, length:", this.logBuffer.length);
-            try {
-                const currentTime = new Date();
-                this.extractBuffer(currentTime);
-            } catch (error) {
-                console.error("There was an issue clearing the log buffer", error);
-            }
-        }
-        if (this.webhookSettings.url != undefined && this.webhookBuffer.length > 0) {
-            console.log("Sending last discord message, length: ", this.webhookBuffer.length);
-            // console.error("req:", {
-            //     method: "POST",
-            //     headers: {
-            //         "Content-Type": "application/json",
-            //     },
-            //     body: JSON.stringify({
-            //         username: `${this.mainProcess}.${this.subProcess}`,
-            //         content: null,
-            //         embeds: this.webhookBuffer,
-            //         attachments: [],
-            //     }),
-            // }); //  * DEBUG LOG
-
-            try {
-                await fetch(this.webhookSettings.url, {
-                    method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({
-                        username: `${this.mainProcess}.${this.subProcess}`,
-                        content: null,
-                        embeds: this.webhookBuffer,
-                        attachments: [],
-                    }),
-                })
-                    .then((res) => {
-                        if (res.status != 204) {
-                            console.error("Unexpected response from webhook", {
-                                status: res.status,
-                                message: res.statusText,
-                            });
-                        }
-
-                        this.webhookBuffer = []; // clear buffer
-
-                        console.log("ready to shutdown");
-                    })
-                    .catch((err) => {
-                        console.error("Webhook failed to send", { error: err });
-                    });
-            } catch (error) {
-                console.error("There was an issue clearing the webhook buffer");
-            }
-        }
-        setTimeout(() => {
-            process.exit();
-        }, 500);
+        await this.close();
+        process.exit();
     }
 }
+
+export {
+    ConsoleTransport,
+    FileTransport,
+    WebhookTransport,
+    SyslogTransport,
+    ThrottledTransport,
+    ForwardTransport,
+    MemoryTransport,
+    AlertTransport,
+    TransportGroup,
+    LogReader,
+    parseTraceparent,
+    redactPatterns,
+    registerLevel,
+    registerTheme,
+    settingsFromEnv,
+    expectLogged,
+    expectNotLogged,
+};
+export type {
+    Transport,
+    TransportOptions,
+    LogRecord,
+    WebhookStats,
+    SyslogStats,
+    LogPort,
+    LogSource,
+    LogLevel,
+    LevelSettings,
+    Theme,
+    LogFilter,
+    LogExpectation,
+    AlertRule,
+    AlertSettings,
+    LogJSON,
+    LogContext,
+    TraceContext,
+    ThrottleSettings,
+    ThrottleStats,
+} from "./types";
@@ -0,0 +1,50 @@
+import * as Types from "./types";
+
+// Higher is more severe, used for minLevel filtering. Colours are used by stdout and webhooks
+export const builtInLevels: { [key in Types.BuiltInLevel]: Types.LevelSettings } = {
+    DEBUG: { severity: 10, colour: "#9b59b6" },
+    INFO: { severity: 20, colour: "#3498db" },
+    SUCCESS: { severity: 25, colour: "#2ecc71" },
+    WARN: { severity: 30, colour: "#f1c40f" },
+    ERROR: { severity: 40, colour: "#e74c3c" },
+    FATAL: { severity: 50, colour: "#ff0000" },
+    FATALRATE: { severity: 50, colour: "#ff0000" },
+};
+
+const levels: Map<string, Types.LevelSettings> = new Map(Object.entries(builtInLevels));
+
+/**
+ * Adds a custom level, or changes an existing one, for every logger and transport
+ * @param {string} name - The level's name as it appears in logs, eg. "AUDIT"
+ * @param {Types.LevelSettings} settings - Its severity and colour
+ */
+export function registerLevel(name: string, settings: Types.LevelSettings) {
+    levels.set(name, settings);
+}
+
+/**
+ * Gets a level's settings, unknown levels are treated like INFO
+ */
+export function getLevel(logLevel: Types.LogLevel): Types.LevelSettings {
+    return levels.get(logLevel) ?? builtInLevels.INFO;
+}
+
+/**
+ * Names of every registered level, built in and custom
+ */
+export function levelNames(): string[] {
+    return [...levels.keys()];
+}
+
+export function levelSeverity(logLevel: Types.LogLevel): number {
+    return getLevel(logLevel).severity;
+}
+
+/**
+ * Checks a log level against a transport's minLevel and ignoreLevels
+ */
+export function acceptsLevel(transport: Types.Transport, logLevel: Types.LogLevel): boolean {
+    if (transport.ignoreLevels != undefined && transport.ignoreLevels.includes(logLevel)) return false;
+    if (transport.minLevel != undefined && levelSeverity(logLevel) < levelSeverity(transport.minLevel)) return false;
+    return true;
+}
@@ -0,0 +1,42 @@
+import * as Types from "./types";
+import { defaultSettings } from "./settings";
+import { findLogFiles, matchesFilter, parseLogLine, readLogLines } from "./view";
+
+/**
+ * Reads logs back from the JSON files in a log directory, oldest first.
+ * Only the files whose dated paths overlap the time range are opened.
+ * @example
+    const reader = new LogReader("./logs");
+
+    for await (const log of reader.query({ since: new Date(Date.now() - 60 * 60 * 1000), minLevel: "ERROR" })) {
+        console.log(log.formattedDate, log.logMessage, log.logData);
+    }
+ */
+export default class LogReader {
+    public path: string;
+
+    /**
+     * @param {string} path - *optional* The logStorage path to read from, defaults to "./logs"
+     */
+    constructor(path: string = defaultSettings.logStorage.path) {
+        this.path = path;
+    }
+
+    /**
+     * Finds logs matching a filter. Lines that can't be parsed are skipped
+     * @param {Types.LogFilter} filter - *optional* Time range, levels, processes and message or data checks
+     */
+    async *query(filter: Types.LogFilter = {}): AsyncGenerator<Types.LogJSON, void, undefined> {
+        for (const file of await findLogFiles(this.path, filter)) {
+            try {
+                for await (const line of readLogLines(file)) {
+                    const log = parseLogLine(line);
+                    if (log != undefined && matchesFilter(log, filter)) yield log;
+                }
+            } catch (error) {
+                // Retention can delete files between finding and reading them
+                if (!(error instanceof Error && "code" in error && error.code == "ENOENT")) throw error;
+            }
+        }
+    }
+}
@@ -0,0 +1,100 @@
+import { createHash } from "node:crypto";
+import * as Types from "./types";
+
+// Common patterns for values that shouldn't leave the process, use them in the redact settings
+export const redactPatterns = {
+    email: /[\w.+-]+@[\w-]+\.[\w.-]+/g,
+    bearer: /\bBearer\s+[\w\-.~+/]+=*/gi,
+    card: /\b(?:\d[ -]?){12,18}\d\b/g, // Only matches that pass the Luhn check are redacted
+};
+
+// Card numbers end in a Luhn check digit, which rules out most other long numbers like timestamps and ids
+function passesLuhn(match: string): boolean {
+    const digits = match.replace(/\D/g, "");
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 == 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+        sum += digit;
+    }
+    return sum % 10 == 0;
+}
+
+function hide(value: string, action: Types.RedactAction, settings: Types.RedactSettings): string | undefined {
+    switch (action) {
+        case "hash":
+            // The same value always gives the same hash, so logs can still be matched up
+            return "sha256:" + createHash("sha256").update(value).digest("hex").slice(0, 16);
+        case "remove":
+            return undefined;
+        default:
+            return settings.mask;
+    }
+}
+
+// Splits "headers.authorization" into ["headers", "authorization"], keys are matched case insensitively
+function parsePath(path: string): string[] {
+    return path.toLowerCase().split(".");
+}
+
+// "*" matches any one key and "**" matches any number of keys
+function matchesPath(rule: string[], path: string[]): boolean {
+    if (rule.length == 0) return path.length == 0;
+    if (rule[0] == "**")
+        return matchesPath(rule.slice(1), path) || (path.length > 0 && matchesPath(rule, path.slice(1)));
+    if (path.length == 0) return false;
+    return (rule[0] == "*" || rule[0] == path[0]) && matchesPath(rule.slice(1), path.slice(1));
+}
+
+/**
+ * Redacts a value from toJSONValue, hiding anything matched by the path rules and string values matched by the
+ * patterns. Returns a new value, the original is left as it is.
+ */
+export function redact(value: any, settings: Types.RedactSettings): any {
+    if (settings.paths.length == 0 && settings.patterns.length == 0) return value;
+
+    const paths = settings.paths.map((rule) =>
+        typeof rule == "string"
+            ? { path: parsePath(rule), action: settings.action }
+            : { path: parsePath(rule.path), action: rule.action },
+    );
+    const patterns = settings.patterns.map((rule) =>
+        rule instanceof RegExp ? { pattern: rule, action: settings.action } : rule,
+    );
+
+    const redactString = (text: string): string => {
+        for (const { pattern, action } of patterns)
+            text = text.replace(pattern, (match) =>
+                pattern == redactPatterns.card && !passesLuhn(match) ? match : (hide(match, action, settings) ?? ""),
+            );
+        return text;
+    };
+
+    const walk = (item: any, path: string[]): any => {
+        if (typeof item == "string") return redactString(item);
+        if (item == null || typeof item != "object") return item;
+
+        if (Array.isArray(item)) return item.map((child, index) => walk(child, [...path, String(index)]));
+
+        const out: { [key: string]: any } = {};
+        for (const key of Object.keys(item)) {
+            const childPath = [...path, key.toLowerCase()];
+            const rule = paths.find((rule) => matchesPath(rule.path, childPath));
+
+            if (rule == undefined) {
+                out[key] = walk(item[key], childPath);
+                continue;
+            }
+
+            const hidden = hide(
+                typeof item[key] == "string" ? item[key] : JSON.stringify(item[key]),
+                rule.action,
+                settings,
+            );
+            if (hidden != undefined) out[key] = hidden;
+        }
+        return out;
+    };
+
+    return walk(value, []);
+}
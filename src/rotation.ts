@@ -0,0 +1,122 @@
+import * as fs from "node:fs";
+import * as nodePath from "node:path";
+import * as zlib from "node:zlib";
+import * as Types from "./types";
+
+// Only the names the file transport makes, "logs.json.log", "2024.txt.log", "20.1.json.log.gz" and so on
+const logFile = /^(logs|\d{2}|\d{4})(\.\d+)?\.(txt|json)\.log(\.gz)?$/;
+// The date directories logs are split into, "2024/06/20"
+const logDirectory = /^\d{2}(\d{2})?$/;
+
+/**
+ * Finds the rotation index to write to for a log location, the highest one in use.
+ * "20." has index 0 for 20.json.log, 1 for 20.1.json.log and so on.
+ * Once the highest index has been compressed it's finished with, so the next index is used
+ */
+export function findRotationIndex(logLocation: string): number {
+    const dirLocation = nodePath.dirname(logLocation);
+    const baseName = nodePath.basename(logLocation);
+    if (!fs.existsSync(dirLocation)) return 0;
+
+    let index = 0;
+    let compressed = false;
+    for (const file of fs.readdirSync(dirLocation)) {
+        if (!file.startsWith(baseName)) continue;
+        const match = /^(?:(\d+)\.)?(txt|json)\.log(\.gz)?$/.exec(file.slice(baseName.length));
+        if (match == null) continue;
+
+        const fileIndex = Number(match[1] ?? 0);
+        if (fileIndex > index) compressed = false;
+        if (fileIndex >= index) {
+            index = fileIndex;
+            compressed ||= match[3] != undefined;
+        }
+    }
+    return compressed ? index + 1 : index;
+}
+
+/**
+ * Gzips a log file to file.gz and removes the original
+ */
+export async function compressFile(file: string) {
+    if (!fs.existsSync(file)) return;
+
+    // Streamed, day files can be far bigger than we want to hold in memory
+    await new Promise<void>((resolve, reject) => {
+        const source = fs.createReadStream(file);
+        const gzip = zlib.createGzip();
+        // Never replace an existing archive, the original is kept if there is one
+        const destination = fs.createWriteStream(file + ".gz", { flags: "wx" });
+        const streams = [source, gzip, destination];
+        for (const stream of streams)
+            stream.on("error", (error) => {
+                for (const other of streams) other.destroy();
+                reject(error);
+            });
+        destination.on("finish", () => resolve());
+
+        // Piped by hand, pausing whenever the next stream is full, as bun's stream types don't allow pipe
+        source.on("data", (chunk) => {
+            if (!gzip.write(chunk)) {
+                source.pause();
+                gzip.once("drain", () => source.resume());
+            }
+        });
+        source.on("end", () => gzip.end());
+        gzip.on("data", (chunk: Buffer) => {
+            if (!destination.write(chunk)) {
+                gzip.pause();
+                destination.once("drain", () => gzip.resume());
+            }
+        });
+        gzip.on("end", () => destination.end());
+    });
+    await fs.promises.unlink(file);
+}
+
+async function listLogFiles(dirLocation: string): Promise<{ file: string; size: number; modified: number }[]> {
+    const files: { file: string; size: number; modified: number }[] = [];
+
+    for (const entry of await fs.promises.readdir(dirLocation, { withFileTypes: true })) {
+        const file = nodePath.join(dirLocation, entry.name);
+        if (entry.isDirectory() && logDirectory.test(entry.name)) {
+            files.push(...(await listLogFiles(file)));
+        } else if (entry.isFile() && logFile.test(entry.name)) {
+            // Files can be compressed or deleted whilst we are looking through them
+            const stats = await fs.promises.stat(file).catch(() => undefined);
+            if (stats != undefined) files.push({ file: file, size: stats.size, modified: stats.mtimeMs });
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Deletes the oldest log files under the storage path until the retention settings are met.
+ * Only files and date directories the file transport names are looked at, anything else is left alone.
+ * Files that are still being written to are never deleted.
+ */
+export async function applyRetention(settings: Types.LogStorageSettings, activeFiles: string[]) {
+    if (settings.maxAgeDays <= 0 && settings.maxTotalSize <= 0 && settings.maxFiles <= 0) return;
+    if (!fs.existsSync(settings.path)) return;
+
+    const active = activeFiles.map((file) => nodePath.resolve(file));
+    const files = (await listLogFiles(settings.path)).sort((a, b) => a.modified - b.modified);
+    let totalSize = files.reduce((total, file) => total + file.size, 0);
+    let fileCount = files.length;
+
+    const oldestAllowed = Date.now() - settings.maxAgeDays * 24 * 60 * 60 * 1000;
+
+    for (const { file, size, modified } of files) {
+        if (active.includes(nodePath.resolve(file))) continue;
+
+        const tooOld = settings.maxAgeDays > 0 && modified < oldestAllowed;
+        const tooBig = settings.maxTotalSize > 0 && totalSize > settings.maxTotalSize;
+        const tooMany = settings.maxFiles > 0 && fileCount > settings.maxFiles;
+        if (!tooOld && !tooBig && !tooMany) continue;
+
+        await fs.promises.rm(file, { force: true });
+        totalSize -= size;
+        fileCount--;
+    }
+}
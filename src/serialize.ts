@@ -0,0 +1,148 @@
+import * as Types from "./types";
+import { defaultSettings } from "./settings";
+
+// How many characters of output are left before everything else is left out
+type Budget = { remaining: number };
+
+/**
+ * Turns any value into something JSON.stringify can handle without throwing or losing information.
+ * Circular references become "[Circular]", BigInts become strings, Errors keep their stack, cause and
+ * AggregateError errors, Maps become objects, Sets become arrays and Dates become ISO strings.
+ * Anything past the limits in the settings is cut short with a marker saying how much was left out.
+ */
+export function toJSONValue(value: any, settings: Types.SerializeSettings = defaultSettings.serialize): any {
+    return convertValue(value, settings, [], { remaining: settings.maxSize });
+}
+
+function convertValue(value: any, settings: Types.SerializeSettings, ancestors: object[], budget: Budget): any {
+    switch (typeof value) {
+        case "undefined":
+            return null;
+        case "bigint":
+        case "symbol":
+            return convertString(value.toString(), settings, budget);
+        case "function":
+            return convertString(`[Function ${value.name || "anonymous"}]`, settings, budget);
+        case "string":
+            return convertString(value, settings, budget);
+        case "object":
+            break;
+        default:
+            budget.remaining -= String(value).length;
+            return value;
+    }
+
+    if (value == null) {
+        budget.remaining -= 4;
+        return null;
+    }
+    if (value instanceof Date)
+        return convertString(isNaN(value.getTime()) ? "Invalid Date" : value.toISOString(), settings, budget);
+    if (ancestors.includes(value)) return "[Circular]";
+    if (ancestors.length >= settings.maxDepth)
+        return Array.isArray(value) || value instanceof Set ? "[Array]" : "[Object]";
+
+    // Only objects above this one count as circular, the same object can appear twice side by side
+    const inside = [...ancestors, value];
+    const convert = (item: any) => convertValue(item, settings, inside, budget);
+
+    if (value instanceof Error) {
+        const error: { [key: string]: any } = {
+            name: value.name,
+            message: convert(value.message),
+            stack: convert(value.stack),
+        };
+        if ("cause" in value && value.cause != undefined) error.cause = convert(value.cause);
+        if ("errors" in value && Array.isArray(value.errors))
+            error.errors = convertArray(value.errors, convert, settings, budget);
+        return convertEntries(Object.entries(value), convert, settings, budget, error);
+    }
+
+    if (value instanceof Map)
+        return convertEntries(
+            [...value].map(([key, item]) => [String(key), item]),
+            convert,
+            settings,
+            budget,
+        );
+
+    if (value instanceof Set) return convertArray([...value], convert, settings, budget);
+
+    if (Array.isArray(value)) return convertArray(value, convert, settings, budget);
+
+    if (typeof value.toJSON == "function") return convertValue(value.toJSON(), settings, ancestors, budget);
+
+    // Match JSON.stringify, which leaves undefined values out
+    const entries = Object.keys(value)
+        .filter((key) => value[key] !== undefined)
+        .map((key): [string, any] => [key, value[key]]);
+    return convertEntries(entries, convert, settings, budget);
+}
+
+function convertString(text: string, settings: Types.SerializeSettings, budget: Budget): string {
+    const maxLength = Math.max(Math.min(settings.maxStringLength, budget.remaining), 0);
+    budget.remaining -= Math.min(text.length, maxLength) + 2;
+    return text.length > maxLength
+        ? text.slice(0, maxLength) + `... ${text.length - maxLength} more characters`
+        : text;
+}
+
+function convertArray(
+    array: any[],
+    convert: (item: any) => any,
+    settings: Types.SerializeSettings,
+    budget: Budget,
+): any[] {
+    const converted: any[] = [];
+    budget.remaining -= 2;
+    for (const item of array) {
+        if (converted.length >= settings.maxArrayLength || budget.remaining <= 0) break;
+        converted.push(convert(item));
+        budget.remaining -= 1;
+    }
+    if (array.length > converted.length) converted.push(`... ${array.length - converted.length} more items`);
+    return converted;
+}
+
+// Objects, Maps and the extra fields of Errors, with maxArrayLength applied to their keys
+function convertEntries(
+    entries: [string, any][],
+    convert: (item: any) => any,
+    settings: Types.SerializeSettings,
+    budget: Budget,
+    object: { [key: string]: any } = {},
+): { [key: string]: any } {
+    let count = 0;
+    budget.remaining -= 2;
+    for (const [key, item] of entries) {
+        if (count >= settings.maxArrayLength || budget.remaining <= 0) break;
+        budget.remaining -= key.length + 4;
+        object[key] = convert(item);
+        count++;
+    }
+    if (entries.length > count) object["..."] = `${entries.length - count} more keys`;
+    return object;
+}
+
+/**
+ * Turns a value from toJSONValue into text for stdout, txt logs and webhooks
+ */
+export function toText(value: any): string {
+    if (value == null) return "";
+    if (typeof value == "string") return value;
+    if (typeof value == "object") return JSON.stringify(value, null, 4);
+    return String(value);
+}
+
+/**
+ * Flattens { user: { id: 1 } } into [["user.id", 1]], for outputs that only take flat fields
+ */
+export function flatten(value: any, prefix: string = "", fields: [string, any][] = []): [string, any][] {
+    if (value != null && typeof value == "object" && Object.keys(value).length > 0) {
+        for (const [key, child] of Object.entries(value))
+            flatten(child, prefix != "" ? `${prefix}.${key}` : key, fields);
+    } else {
+        fields.push([prefix != "" ? prefix : "value", value]);
+    }
+    return fields;
+}
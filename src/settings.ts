@@ -0,0 +1,124 @@
+import * as Types from "./types";
+
+// Throttling is off until an output's settings turn part of it on
+export const defaultThrottleSettings: Types.ThrottleSettings = {
+    sample: {},
+    rateLimit: 0,
+    burst: 10,
+    dedupeWindowMs: 0,
+    key: (record) => `${record.logLevel} ${record.mainProcess}.${record.subProcess} ${record.logMessage}`,
+};
+
+export const defaultSettings: Types.LoggerSettings = {
+    show: {
+        stdoutEnable: true,
+        mainProgram: true,
+        subProgram: true,
+        date: true,
+        dateformat: "yyyy-mm-dd HH:MM:ss:l Z",
+        level: true,
+        context: true,
+        format: "text",
+        template: "{date} {level:5} {main}/{sub} {msg} {data}",
+        singleLine: false,
+        ignoreLevels: process.env.ENVIRONMENT != "DEV" ? ["DEBUG"] : [],
+        minLevel: undefined,
+        theme: "classic",
+        colour: "auto",
+    },
+    logStorage: {
+        path: "./logs",
+        json: true,
+        txt: true,
+        splitBy: "day",
+        stratagy: "batch",
+        batch: 6,
+        flushIntervalMs: 1000,
+        flushLevel: "ERROR",
+        ignoreLevels: process.env.ENVIRONMENT != "DEV" ? ["DEBUG"] : [],
+        minLevel: undefined,
+        maxFileSize: 0,
+        maxAgeDays: 0,
+        maxTotalSize: 0,
+        maxFiles: 0,
+        compress: false,
+        maxQueueSize: 10000,
+        overflow: "block",
+        fsync: false,
+    },
+    logWebook: {
+        enable: false,
+        url: undefined,
+        minLevel: undefined,
+        username: "{main}.{sub}",
+        form: "",
+        flushIntervalMs: 5000,
+        maxRetries: 5,
+        retryDelayMs: 1000,
+        maxQueueSize: 1000,
+    },
+    syslog: {
+        enable: false,
+        protocol: "udp",
+        host: "127.0.0.1",
+        port: 514,
+        path: "",
+        framing: "octet-counting",
+        facility: 1,
+        enterpriseId: 32473,
+        minLevel: undefined,
+        reconnectDelayMs: 1000,
+        maxQueueSize: 10000,
+        maxMessageSize: 8192,
+    },
+    serialize: {
+        maxDepth: 10,
+        maxArrayLength: 100,
+        maxStringLength: 10000,
+        maxSize: 100000,
+    },
+    redact: {
+        paths: [],
+        patterns: [],
+        action: "mask",
+        mask: "[REDACTED]",
+    },
+    timers: {
+        level: "INFO",
+        slowMs: 0,
+        slowLevel: "WARN",
+    },
+    cluster: {
+        role: "standalone",
+        port: undefined,
+    },
+    alerts: {
+        targets: {},
+        rules: [],
+    },
+    levels: {},
+    reloadOnSighup: false,
+    handleProcessSignals: false,
+    testMode: false,
+    transports: [],
+};
+
+// Used for anything an alert rule leaves out
+export const defaultAlertRule: Required<Omit<Types.AlertRule, "name" | "target" | "when">> = {
+    threshold: 0,
+    windowMs: 60 * 1000,
+    cooldownMs: 5 * 60 * 1000,
+    resolve: true,
+};
+
+// What testMode turns off, so tests have no side effects whatever the environment says
+export const testModeSettings: Partial<Types.CustomLoggerSettings> = {
+    show: { stdoutEnable: false },
+    logStorage: { json: false, txt: false },
+    logWebook: [],
+    syslog: { enable: false },
+    alerts: { rules: [] },
+    cluster: { role: "standalone" },
+    reloadOnSighup: false,
+    handleProcessSignals: false,
+};
@@ -0,0 +1,116 @@
+import dotenv from "dotenv";
+import * as Types from "./types";
+import { settingsFromEnv } from "./env";
+
+// The parts of a Logger that shutting down and reloading need
+type Closable = {
+    fatal(message: any, data?: any): Promise<void>;
+    info(message: any, data?: any): Promise<void>;
+    flush(): Promise<void>;
+    close(): Promise<void>;
+    configure(userSettings: Partial<Types.CustomLoggerSettings>): Promise<void>;
+};
+
+// Loggers that haven't been closed yet, shared by every instance so handlers are only added once
+const open: Set<Closable> = new Set();
+let flushOnExit = false;
+let handlingSignals = false;
+// Loggers with reloadOnSighup, sharing one SIGHUP listener
+const reloading: Set<Closable> = new Set();
+let handlingSighup = false;
+
+const signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+function closeAll(): Promise<void> {
+    return Promise.all(
+        [...open].map((logger) =>
+            logger.close().catch((error) => console.error("There was an issue closing a logger", error)),
+        ),
+    ).then(() => {});
+}
+
+function flushAll(): Promise<void> {
+    return Promise.all(
+        [...open].map((logger) =>
+            logger.flush().catch((error) => console.error("There was an issue flushing a logger", error)),
+        ),
+    ).then(() => {});
+}
+
+function logAll(message: string, data: any): Promise<void> {
+    return Promise.all([...open].map((logger) => logger.fatal(message, data).catch(() => {}))).then(() => {});
+}
+
+// Closes every logger, then sends the signal again so the process ends the way it would have without us.
+// If the host has its own handler it's left to decide when to exit, and can keep logging whilst it shuts down,
+// so the loggers are only flushed and stay open. Handlers are added with once, so a second signal isn't held up
+async function onSignal(signal: NodeJS.Signals) {
+    if (process.listenerCount(signal) > 0) return flushAll();
+
+    await closeAll();
+    process.kill(process.pid, signal);
+}
+
+// Logs the error as FATAL and closes every logger, then exits with code 1 like an unhandled error would
+function onError(event: "uncaughtException" | "unhandledRejection", message: string) {
+    return async (error: any) => {
+        await logAll(message, error);
+        await closeAll();
+        if (process.listenerCount(event) == 0) {
+            console.error(error);
+            process.exit(1);
+        }
+    };
+}
+
+// Reads the environment once, then gives the new settings to every logger that reloads
+function onSighup() {
+    // Pick up changes to .env as well as the real environment
+    dotenv.config({ override: true });
+    const settings = settingsFromEnv();
+    for (const logger of reloading)
+        logger
+            .configure(settings)
+            .then(() => logger.info("Reloaded settings on SIGHUP"))
+            .catch((error) => console.error("There was an issue reloading a logger", error));
+}
+
+/**
+ * Keeps track of a logger so it's flushed before the process exits.
+ * With handleProcessSignals, SIGINT, SIGTERM, uncaught exceptions and unhandled rejections also close it first.
+ * With reloadOnSighup, SIGHUP re-reads its LOUIS_LOG_* settings until it's closed.
+ */
+export function trackLogger(logger: Closable, handleProcessSignals: boolean, reloadOnSighup: boolean) {
+    open.add(logger);
+
+    // Write out anything buffered once there is nothing left to do, without changing how the process exits
+    if (!flushOnExit) {
+        flushOnExit = true;
+        process.on("beforeExit", () => {
+            if (open.size > 0) closeAll();
+        });
+    }
+
+    if (handleProcessSignals && !handlingSignals) {
+        handlingSignals = true;
+        for (const signal of signals) process.once(signal, onSignal);
+        process.once("uncaughtException", onError("uncaughtException", "Uncaught exception"));
+        process.once("unhandledRejection", onError("unhandledRejection", "Unhandled promise rejection"));
+    }
+
+    if (reloadOnSighup) {
+        reloading.add(logger);
+        if (!handlingSighup) {
+            handlingSighup = true;
+            process.on("SIGHUP", onSighup);
+        }
+    }
+}
+
+/**
+ * Stops tracking a logger once it has been closed
+ */
+export function untrackLogger(logger: Closable) {
+    open.delete(logger);
+    reloading.delete(logger);
+}
@@ -0,0 +1,97 @@
+import * as os from "node:os";
+import * as Types from "./types";
+import { levelSeverity } from "./levels";
+import { flatten } from "./serialize";
+
+// Syslog severities, 0 is the most severe
+const severities = { critical: 2, error: 3, warning: 4, notice: 5, informational: 6, debug: 7 };
+
+/**
+ * Maps a level to a syslog severity by how severe it is, so custom levels get one too
+ */
+export function syslogSeverity(logLevel: Types.LogLevel): number {
+    const severity = levelSeverity(logLevel);
+    if (severity >= 50) return severities.critical;
+    if (severity >= 40) return severities.error;
+    if (severity >= 30) return severities.warning;
+    if (severity > 20) return severities.notice;
+    if (severity >= 20) return severities.informational;
+    return severities.debug;
+}
+
+// Header fields are printable ASCII without spaces, "-" when empty
+function headerField(value: string, maxLength: number): string {
+    const field = value.replace(/[^\x21-\x7e]/g, "_").slice(0, maxLength);
+    return field != "" ? field : "-";
+}
+
+// PARAM-NAMEs can't have spaces, "=", "]" or quotes in them
+function paramName(name: string): string {
+    return name.replace(/[^\x21-\x7e]|[=\]"]/g, "_").slice(0, 32);
+}
+
+// PARAM-VALUEs have to escape quotes, backslashes and "]"
+function paramValue(value: any): string {
+    const text = typeof value == "string" ? value : JSON.stringify(value);
+    return text.replace(/["\\\]]/g, (character) => "\\" + character);
+}
+
+function sdElement(id: string, value: any): string {
+    const params = flatten(value).map(([name, param]) => ` ${paramName(name)}="${paramValue(param)}"`);
+    return `[${id}${params.join("")}]`;
+}
+
+// Cuts text down to at most maxBytes of UTF-8, without splitting a character
+function truncateBytes(text: string, maxBytes: number): string {
+    if (Buffer.byteLength(text) <= maxBytes) return text;
+    const { read } = new TextEncoder().encodeInto(text, new Uint8Array(Math.max(maxBytes, 0)));
+    return text.slice(0, read);
+}
+
+/**
+ * Forms an RFC 5424 syslog message.
+ * mainProcess is the APP-NAME and subProcess the MSGID, logData and context are sent as STRUCTURED-DATA
+ * @param {string} message - *optional* The MSG part, defaults to the log message
+ * @param {number} maxBytes - *optional* Longest the message can be. STRUCTURED-DATA elements that don't fit are left
+ * out and MSG is cut short, as RFC 5426 allows for UDP
+ */
+export function formSyslog(
+    record: Types.LogRecord,
+    settings: Types.LogSyslogSettings,
+    message: string = record.logMessage,
+    maxBytes: number = Infinity,
+): string {
+    const priority = settings.facility * 8 + syslogSeverity(record.logLevel);
+
+    const elements: string[] = [];
+    if (record.data != null) elements.push(sdElement(`data@${settings.enterpriseId}`, record.data));
+    if (Object.keys(record.context).length > 0)
+        elements.push(sdElement(`context@${settings.enterpriseId}`, record.context));
+    if (record.durationMs != undefined)
+        elements.push(sdElement(`timer@${settings.enterpriseId}`, { durationMs: record.durationMs }));
+
+    const header = [
+        `<${priority}>1`,
+        record.date.toISOString(),
+        headerField(os.hostname(), 255),
+        headerField(record.mainProcess, 48),
+        headerField(record.processID ?? String(process.pid), 128),
+        headerField(record.subProcess, 32),
+    ].join(" ");
+
+    // Room left after the header and the spaces around STRUCTURED-DATA
+    let room = maxBytes - Buffer.byteLength(header) - 2;
+    let structuredData = "";
+    for (const element of elements) {
+        const length = Buffer.byteLength(element);
+        if (length > room - 1) continue; // Leaves room for "-" if nothing fits
+        structuredData += element;
+        room -= length;
+    }
+    if (structuredData == "") {
+        structuredData = "-";
+        room -= 1;
+    }
+
+    return [header, structuredData, truncateBytes(message, room)].join(" ");
+}
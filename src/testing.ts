@@ -0,0 +1,60 @@
+import * as Types from "./types";
+import type Logger from "./index";
+import MemoryTransport from "./transports/memory";
+import { matchesExpectation } from "./view";
+
+function logsOf(source: Logger | MemoryTransport): Types.LogJSON[] {
+    const memory = source instanceof MemoryTransport ? source : source.memory;
+    if (memory == undefined) throw new Error("Logger isn't in testMode, so there are no logs to check");
+    return memory.logs;
+}
+
+function describeExpectation(expectation: Types.LogExpectation): string {
+    return JSON.stringify(expectation, (key, value) => (value instanceof RegExp ? String(value) : value));
+}
+
+function describeLogs(logs: Types.LogJSON[]): string {
+    if (logs.length == 0) return "Nothing was logged";
+    const lines = logs.map(
+        (log) =>
+            `    [${log.logLevel}] <${log.mainProcess}.${log.subProcess}> ${log.logMessage}` +
+            (log.logData != null ? ` ${JSON.stringify(log.logData)}` : ""),
+    );
+    return "Logged:\n" + lines.join("\n");
+}
+
+/**
+ * Throws unless a log matching the expectation was kept, works with any test runner.
+ * Returns the matching logs
+ * @param {Logger | MemoryTransport} source - A logger with testMode, or a MemoryTransport
+ * @param {Types.LogExpectation} expectation - What the log has to look like
+ * @param {number} times - *optional* Exactly how many matching logs there have to be
+ * @example
+        expectLogged(logger, { level: "ERROR", message: /timeout/, data: { retries: 3 } });
+ */
+export function expectLogged(
+    source: Logger | MemoryTransport,
+    expectation: Types.LogExpectation,
+    times?: number,
+): Types.LogJSON[] {
+    const logs = logsOf(source);
+    const matches = logs.filter((log) => matchesExpectation(log, expectation));
+
+    if (times == undefined ? matches.length == 0 : matches.length != times) {
+        const wanted = times == undefined ? "a log" : `${times} log${times == 1 ? "" : "s"}`;
+        throw new Error(
+            `Expected ${wanted} matching ${describeExpectation(expectation)}, found ${matches.length}\n` +
+                describeLogs(logs),
+        );
+    }
+    return matches;
+}
+
+/**
+ * Throws if a log matching the expectation was kept
+ * @param {Logger | MemoryTransport} source - A logger with testMode, or a MemoryTransport
+ * @param {Types.LogExpectation} expectation - What the log would look like
+ */
+export function expectNotLogged(source: Logger | MemoryTransport, expectation: Types.LogExpectation) {
+    expectLogged(source, expectation, 0);
+}
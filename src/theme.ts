@@ -0,0 +1,155 @@
+import { Chalk, colorNames, modifierNames, type ChalkInstance, type ColorName, type ModifierName } from "chalk";
+import * as Types from "./types";
+import { getLevel, levelNames } from "./levels";
+
+// Level colours from before themes existed, "level" in a theme uses these
+const classicLevels: { [key in Types.BuiltInLevel]: Types.ColourStyle } = {
+    FATAL: "bgRedBright",
+    FATALRATE: "bgRedBright",
+    ERROR: "red",
+    WARN: "yellow",
+    SUCCESS: "green",
+    INFO: "blue",
+    DEBUG: "magenta",
+};
+
+export const themes: { [name: string]: Types.Theme } = {
+    // The whole line in the level's colour
+    classic: { line: "level", levels: classicLevels },
+    // Quiet date and tag, so the level and message stand out
+    subtle: {
+        date: "gray",
+        tag: "cyan",
+        context: "gray",
+        level: "level.bold",
+        message: "",
+        data: "gray",
+        levels: classicLevels,
+    },
+    // Coloured level badges on plain text
+    badges: {
+        level: "level.inverse.bold",
+        levels: {
+            ...classicLevels,
+            FATAL: "redBright",
+            FATALRATE: "redBright",
+        },
+    },
+    // No colours at all
+    mono: {},
+};
+
+/**
+ * Adds a theme, or changes an existing one, so it can be picked by name in the show settings
+ * @param {string} name - The theme's name, eg. "ocean"
+ * @param {Types.Theme} theme - Styles for each part of a log
+ */
+export function registerTheme(name: string, theme: Types.Theme) {
+    themes[name] = theme;
+}
+
+/**
+ * Works out if stdout should be coloured.
+ * FORCE_COLOR turns colours on, NO_COLOR turns them off, otherwise they're only used on a TTY.
+ */
+export function colourLevel(setting: Types.LogFormatSettings["colour"], stream: { isTTY?: boolean } = process.stdout) {
+    if (setting === false) return 0;
+
+    const forced = process.env.FORCE_COLOR;
+    if (forced != undefined && forced != "0" && forced != "false") return Math.min(Math.max(Number(forced) || 1, 1), 3);
+
+    if (setting === true) return 3;
+    if (forced == "0" || forced == "false") return 0;
+    if (process.env.NO_COLOR != undefined && process.env.NO_COLOR != "") return 0;
+    if (!stream.isTTY || process.env.TERM == "dumb") return 0;
+
+    return 3;
+}
+
+/**
+ * Gets a theme by name, falling back to classic
+ */
+export function resolveTheme(theme: Types.LogFormatSettings["theme"]): Types.Theme {
+    if (typeof theme != "string") return theme;
+    if (themes[theme] == undefined) console.error("Unknown theme, using classic instead", theme);
+    return themes[theme] ?? themes.classic;
+}
+
+const chalkStyles: readonly string[] = [...modifierNames, ...colorNames];
+
+function isChalkStyle(part: string): part is ModifierName | ColorName {
+    return chalkStyles.includes(part);
+}
+
+// Turns a style like "bold.bgRed.white", "#ff8800", "bg#ff8800" or "level.bold" into a function.
+// Issues with the style are passed to problem rather than stopping it
+function styleFunction(
+    style: Types.ColourStyle | undefined,
+    logLevel: Types.LogLevel,
+    theme: Types.Theme,
+    chalk: ChalkInstance,
+    problem: (message: string, detail: string) => void,
+): (text: string) => string {
+    if (style == undefined || style == "") return (text) => text;
+    if (typeof style == "function") return style;
+
+    let painter: ChalkInstance = chalk;
+    let levelPainter = (text: string) => text;
+    for (const part of style.split(".")) {
+        if (part == "level") {
+            // The level's colour in this theme, or the colour it was registered with
+            const levelStyle = theme.levels?.[logLevel] ?? getLevel(logLevel).colour;
+            if (typeof levelStyle == "string" && levelStyle.split(".").includes("level"))
+                problem('Level colours in themes can\'t use "level"', logLevel);
+            else levelPainter = styleFunction(levelStyle, logLevel, theme, chalk, problem);
+        } else if (part.startsWith("bg#")) painter = painter.bgHex(part.slice(2));
+        else if (part.startsWith("#")) painter = painter.hex(part);
+        else if (isChalkStyle(part)) painter = painter[part];
+        else problem("Unknown colour in theme", part);
+    }
+    return (text) => painter(levelPainter(text));
+}
+
+/**
+ * Makes the painter and whole line colour for stdout from a theme.
+ * Each part's style is worked out once per level, and issues with the theme are printed once, when it's made
+ */
+export function themePainter(
+    theme: Types.Theme,
+    level: number,
+): { paint: Types.TxtPainter; line: (text: string, logLevel: Types.LogLevel) => string } {
+    const chalk = new Chalk({ level: level as 0 | 1 | 2 | 3 });
+    const problems: Set<string> = new Set();
+    const problem = (message: string, detail: string) => {
+        if (problems.has(`${message} ${detail}`)) return;
+        problems.add(`${message} ${detail}`);
+        console.error(message, detail);
+    };
+
+    const part = (style: Types.ColourStyle | undefined) => {
+        const painters: Map<Types.LogLevel, (text: string) => string> = new Map();
+        const painterFor = (logLevel: Types.LogLevel) => {
+            let painter = painters.get(logLevel);
+            if (painter == undefined) {
+                painter = styleFunction(style, logLevel, theme, chalk, problem);
+                painters.set(logLevel, painter);
+            }
+            return painter;
+        };
+        for (const logLevel of levelNames()) painterFor(logLevel);
+
+        return (text: string, logLevel: Types.LogLevel): string => painterFor(logLevel)(text);
+    };
+
+    return {
+        paint: {
+            date: part(theme.date),
+            tag: part(theme.tag),
+            context: part(theme.context),
+            level: part(theme.level),
+            message: part(theme.message),
+            data: part(theme.data),
+        },
+        line: part(theme.line),
+    };
+}
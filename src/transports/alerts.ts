@@ -0,0 +1,183 @@
+import dateFormat from "dateformat";
+import * as Types from "../types";
+import { defaultAlertRule, defaultSettings } from "../settings";
+import { formLogJSON } from "../format";
+import { toText } from "../serialize";
+import { matchesExpectation } from "../view";
+import WebhookTransport from "./webhook";
+import { reportToConsole, unref } from "./helpers";
+
+type RuleState = {
+    rule: Types.AlertRule & typeof defaultAlertRule;
+    times: number[]; // When each log that counts arrived, oldest first, only those within windowMs
+    firing: boolean; // More than threshold logs have counted within windowMs
+    alerted: boolean; // An alert was sent whilst firing, so it needs a resolved alert
+    firingSince: number;
+    lastAlertAt: number;
+    logs: number; // Logs that counted whilst firing
+    sinceLastAlert: number; // Logs that counted during the cooldown, summed up in the next alert
+    lastRecord?: Types.LogRecord; // The last log that counted, its processes and context are used for the resolved alert
+    resolveTimer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Checks every log against the alert rules, and sends an alert to a rule's target when more than its threshold of
+ * logs count within its window. Once the logs die down, a "resolved" alert follows.
+ */
+export default class AlertTransport implements Types.Transport {
+    public minLevel?: Types.LogLevel;
+    public ignoreLevels?: Types.LogLevel[];
+    public formatter?: (record: Types.LogRecord) => string;
+
+    private targets: Map<string, WebhookTransport> = new Map();
+    private rules: RuleState[] = [];
+    private closed: boolean = false;
+
+    constructor(settings: Types.AlertSettings, options: Types.TransportOptions = {}) {
+        this.minLevel = options.minLevel;
+        this.ignoreLevels = options.ignoreLevels;
+        this.formatter = options.formatter;
+        const report = options.report ?? reportToConsole;
+
+        // A target gets every alert, so the level and process filters of named webhook destinations are left out
+        for (const [name, target] of Object.entries(settings.targets)) {
+            const unfiltered = { levels: undefined, mainProcess: undefined, subProcess: undefined };
+            this.targets.set(
+                name,
+                new WebhookTransport({ ...target, ...unfiltered, enable: true, minLevel: undefined }, { report }),
+            );
+        }
+
+        for (const rule of settings.rules) {
+            if (!this.targets.has(rule.target)) {
+                report("ERROR", "Alert rule has an unknown target", { rule: rule.name, target: rule.target });
+                continue;
+            }
+            this.rules.push({
+                rule: { ...defaultAlertRule, ...rule },
+                times: [],
+                firing: false,
+                alerted: false,
+                firingSince: 0,
+                lastAlertAt: -Infinity,
+                logs: 0,
+                sinceLastAlert: 0,
+            });
+        }
+    }
+
+    write(record: Types.LogRecord) {
+        if (record.logLevel == "FATALRATE") return; // Alerting on issues sending alerts would only make more of them
+        if (this.closed) return;
+
+        // Rules match against the LogJSON shape, the same as expectLogged and logger.query
+        let log: Types.LogJSON | undefined;
+        for (const state of this.rules) {
+            log ??= formLogJSON(record);
+            if (matchesExpectation(log, state.rule.when)) this.count(state, record);
+        }
+    }
+
+    async flush() {
+        await Promise.all([...this.targets.values()].map((target) => target.flush()));
+    }
+
+    async close() {
+        this.closed = true;
+        for (const state of this.rules) clearTimeout(state.resolveTimer);
+        await Promise.all([...this.targets.values()].map((target) => target.close()));
+    }
+
+    private count(state: RuleState, record: Types.LogRecord) {
+        const { rule } = state;
+        const now = Date.now();
+        state.times.push(now);
+        state.lastRecord = record;
+        this.forgetOld(state, now);
+        if (state.times.length <= rule.threshold) return;
+
+        if (!state.firing) {
+            state.firing = true;
+            state.firingSince = now;
+            state.logs = state.times.length;
+        } else {
+            state.logs++;
+        }
+
+        // Whilst quiet, logs are only counted
+        if (now - state.lastAlertAt < rule.cooldownMs) state.sinceLastAlert++;
+        else this.alert(state, record, now);
+
+        this.scheduleResolve(state);
+    }
+
+    private forgetOld(state: RuleState, now: number) {
+        while (state.times.length > 0 && state.times[0] <= now - state.rule.windowMs) state.times.shift();
+    }
+
+    // Checks again once enough logs have left the window for the rule to stop firing
+    private scheduleResolve(state: RuleState) {
+        clearTimeout(state.resolveTimer);
+        const clearsAt = state.times[state.times.length - state.rule.threshold - 1] + state.rule.windowMs;
+
+        state.resolveTimer = setTimeout(
+            () => {
+                this.forgetOld(state, Date.now());
+                if (state.times.length > state.rule.threshold) return this.scheduleResolve(state);
+                this.resolve(state);
+            },
+            Math.max(clearsAt - Date.now(), 0),
+        );
+        unref(state.resolveTimer);
+    }
+
+    private alert(state: RuleState, record: Types.LogRecord, now: number) {
+        const { rule } = state;
+        const data = {
+            rule: rule.name,
+            count: state.times.length,
+            windowMs: rule.windowMs,
+            sinceLastAlert: state.sinceLastAlert,
+            lastLog: record.logMessage,
+            lastLogData: record.data,
+        };
+
+        state.alerted = true;
+        state.lastAlertAt = now;
+        state.sinceLastAlert = 0;
+        this.send(rule.target, {
+            ...record,
+            logMessage: `Alert: ${rule.name}`,
+            logData: toText(data),
+            data,
+        });
+    }
+
+    private resolve(state: RuleState) {
+        const { rule } = state;
+        const alerted = state.alerted;
+        state.firing = false;
+        state.alerted = false;
+        state.resolveTimer = undefined;
+        if (!alerted || !rule.resolve || this.closed) return;
+
+        const date = new Date();
+        const data = { rule: rule.name, logs: state.logs, firingForMs: date.getTime() - state.firingSince };
+        this.send(rule.target, {
+            ...state.lastRecord!,
+            date,
+            formattedDate: dateFormat(date, defaultSettings.show.dateformat),
+            logLevel: "SUCCESS",
+            logMessage: `Resolved: ${rule.name}`,
+            logData: toText(data),
+            data,
+        });
+    }
+
+    // Alerts go out straight away, rather than waiting for the target's batch to fill
+    private send(target: string, record: Types.LogRecord) {
+        const webhook = this.targets.get(target)!;
+        webhook.write(record);
+        webhook.flush();
+    }
+}
@@ -0,0 +1,40 @@
+import * as Types from "../types";
+import { formatLog } from "../format";
+import { defaultSettings } from "../settings";
+import { colourLevel, resolveTheme, themePainter } from "../theme";
+
+/**
+ * Prints logs to stdout, coloured by the theme in the show settings.
+ * Colours are left out when stdout isn't a TTY or NO_COLOR is set.
+ */
+export default class ConsoleTransport implements Types.Transport {
+    public minLevel?: Types.LogLevel;
+    public ignoreLevels?: Types.LogLevel[];
+    public formatter?: (record: Types.LogRecord) => string;
+
+    private settings: Types.LogFormatSettings;
+    private paint: Types.TxtPainter;
+    private line: (text: string, logLevel: Types.LogLevel) => string;
+
+    constructor(options: Types.TransportOptions = {}, settings: Partial<Types.LogFormatSettings> = {}) {
+        this.settings = { ...defaultSettings.show, ...settings };
+        this.minLevel = options.minLevel;
+        this.ignoreLevels = options.ignoreLevels;
+        this.formatter = options.formatter;
+
+        const { paint, line } = themePainter(resolveTheme(this.settings.theme), colourLevel(this.settings.colour));
+        this.paint = paint;
+        this.line = line;
+    }
+
+    write(record: Types.LogRecord) {
+        // Custom formatters can only be coloured as a whole
+        const text =
+            this.formatter != undefined ? this.formatter(record) : formatLog(record, this.settings, this.paint);
+        console.log(this.line(text, record.logLevel));
+    }
+
+    async flush() {}
+
+    async close() {}
+}
@@ -0,0 +1,259 @@
+import dateFormat from "dateformat";
+import * as fs from "node:fs";
+import * as Types from "../types";
+import FileWriter from "../writer";
+import { formLogJSON, formatLog } from "../format";
+import { defaultSettings } from "../settings";
+import { applyRetention, compressFile, findRotationIndex } from "../rotation";
+import { levelSeverity } from "../levels";
+import { reportToConsole, unref } from "./helpers";
+
+/**
+ * Stores logs as txt and/or JSON files, split into directories by date.
+ * Files can also be rotated by size, compressed once finished with and deleted by the retention settings.
+ */
+export default class FileTransport implements Types.Transport {
+    public minLevel?: Types.LogLevel;
+    public ignoreLevels?: Types.LogLevel[];
+    public formatter: (record: Types.LogRecord) => string;
+
+    private settings: Types.LogStorageSettings;
+    private report: (logLevel: Types.LogLevel, message: any, data?: any) => void;
+
+    private logBuffer: Types.LogBufferItem[] = [];
+
+    // The files currently being written to, with how much has been written to them
+    private current?: { logLocation: string; index: number; txtSize: number; jsonSize: number };
+    private writer: FileWriter;
+    // Files that are finished with but not compressed yet, they can't be written to again
+    private compressing: Set<string> = new Set();
+    private cleaning: Promise<void> = Promise.resolve();
+    private interval?: ReturnType<typeof setInterval>;
+
+    constructor(settings: Partial<Types.LogStorageSettings> = {}, options: Types.TransportOptions = {}) {
+        this.settings = { ...defaultSettings.logStorage, ...settings };
+        this.minLevel = options.minLevel ?? this.settings.minLevel;
+        this.ignoreLevels = options.ignoreLevels ?? this.settings.ignoreLevels;
+        this.formatter = options.formatter ?? ((record) => formatLog(record, defaultSettings.show));
+        this.report = options.report ?? reportToConsole;
+        // Write failures go to the console, reporting them through the logger would write them back to the failing file
+        this.writer = new FileWriter(this.settings, reportToConsole);
+
+        // Write out partial batches so quiet services don't keep logs in memory
+        if (this.settings.stratagy == "batch" && this.settings.flushIntervalMs > 0) {
+            this.interval = setInterval(() => {
+                if (this.logBuffer.length > 0)
+                    this.extractBuffer(new Date()).catch((error) =>
+                        this.report("ERROR", "There was an issue writing buffered logs", error),
+                    );
+            }, this.settings.flushIntervalMs);
+            unref(this.interval);
+        }
+
+        this.cleanUp();
+    }
+
+    /**
+     * Resolves once the log has been queued for writing, which can wait with the "block" overflow policy
+     */
+    async write(record: Types.LogRecord) {
+        const logTxt = this.formatter(record);
+        const logJSON = formLogJSON(record);
+
+        let logJSONString: string = "";
+
+        try {
+            logJSONString = JSON.stringify(logJSON);
+        } catch (error) {
+            this.report("ERROR", "Error converting logJSON to string", { error: error, data: logJSON });
+        }
+
+        // storing
+        if (this.settings.stratagy == "batch" && this.settings.batch > 1) {
+            // Update buffer
+            let bufferLength: number = this.logBuffer.push({ logTXT: logTxt, logJSONString: logJSONString });
+
+            // if we are at batch count, or this log is too important to wait, send to file
+            const urgent =
+                this.settings.flushLevel != undefined &&
+                levelSeverity(record.logLevel) >= levelSeverity(this.settings.flushLevel);
+            if (bufferLength >= this.settings.batch || urgent) {
+                await this.extractBuffer(record.date);
+            }
+        } else {
+            // send file every time
+            await this.writeFiles(record.date, logTxt + "\n", logJSONString + "\n");
+        }
+    }
+
+    /**
+     * Resolves once everything buffered is written to disk
+     */
+    async flush() {
+        if (this.logBuffer.length > 0) await this.extractBuffer(new Date());
+        await this.writer.flush();
+    }
+
+    async close() {
+        if (this.interval != undefined) clearInterval(this.interval);
+        try {
+            await this.flush();
+            await this.writer.close();
+        } catch (error) {
+            console.error("There was an issue clearing the log buffer", error);
+        }
+        if (this.writer.dropped > 0) console.error("Log writes dropped due to a full queue:", this.writer.dropped);
+    }
+
+    private generatePaths(currentTime: Date) {
+        let logLocation = "";
+        let dirLocation = this.settings.path;
+        //        dateformat: "yyyy-mm-dd HH:MM:ss:l Z",
+        switch (this.settings.splitBy) {
+            case "don't split":
+                dirLocation += `/`;
+                logLocation += dirLocation + "logs.";
+                break;
+            case "year":
+                dirLocation += `/`;
+                logLocation += dirLocation + `${dateFormat(currentTime, "yyyy")}.`;
+                break;
+            case "month":
+                dirLocation += `/${dateFormat(currentTime, "yyyy")}/`;
+                logLocation += dirLocation + `${dateFormat(currentTime, "mm")}.`;
+                break;
+            case "day":
+                dirLocation += `/${dateFormat(currentTime, "yyyy/mm")}/`;
+                logLocation += dirLocation + `${dateFormat(currentTime, "dd")}.`;
+                break;
+            case "hour":
+                dirLocation += `/${dateFormat(currentTime, "yyyy/mm/dd")}/`;
+                logLocation += dirLocation + `${dateFormat(currentTime, "HH")}.`;
+                break;
+            case "minute":
+                dirLocation += `/${dateFormat(currentTime, "yyyy/mm/dd/HH")}/`;
+                logLocation += dirLocation + `${dateFormat(currentTime, "MM")}.`;
+                break;
+            case "second":
+                dirLocation += `/${dateFormat(currentTime, "yyyy/mm/dd/HH/MM")}/`;
+                logLocation += dirLocation + `${dateFormat(currentTime, "ss")}.`;
+                break;
+            default:
+                this.report("ERROR", "Logger split by value is invalid", this.settings.splitBy);
+                break;
+        }
+        return { dirLocation, logLocation };
+    }
+
+    private async extractBuffer(currentTime: Date) {
+        let txtUnpacked: string = "";
+        let jsonUnpacked: string = "";
+
+        let bufferLength = this.logBuffer.length;
+
+        for (let i = 0; i < bufferLength; i++) {
+            let logItem = this.logBuffer.shift();
+            if (logItem == undefined) {
+                this.report("ERROR", "Log buffer item is empty whilst trying to read from it");
+            } else {
+                txtUnpacked += logItem.logTXT + "\n";
+                jsonUnpacked += logItem.logJSONString + "\n";
+            }
+        }
+
+        await this.writeFiles(currentTime, txtUnpacked, jsonUnpacked);
+    }
+
+    private async writeFiles(currentTime: Date, txt: string, json: string) {
+        const txtBytes = this.settings.txt ? Buffer.byteLength(txt) : 0;
+        const jsonBytes = this.settings.json ? Buffer.byteLength(json) : 0;
+        const { txtFile, jsonFile } = this.targetFiles(currentTime, txtBytes, jsonBytes);
+
+        if (this.settings.txt) await this.writer.write(txtFile, txt);
+        if (this.settings.json) await this.writer.write(jsonFile, json);
+    }
+
+    // Works out which files to write to, moving on to the next rotation when they would get too large
+    private targetFiles(currentTime: Date, txtBytes: number, jsonBytes: number) {
+        let { dirLocation, logLocation } = this.generatePaths(currentTime);
+
+        try {
+            if (!fs.existsSync(dirLocation)) {
+                fs.mkdirSync(dirLocation, { recursive: true });
+            }
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`Couldn't create the log directory ${dirLocation}: ${reason}`);
+        }
+
+        if (this.current == undefined || this.current.logLocation != logLocation) {
+            let index = findRotationIndex(logLocation);
+            if (this.compressing.has(this.filesFor({ logLocation, index }).jsonFile)) index++;
+            const prefix = logLocation + (index > 0 ? `${index}.` : "");
+            let txtSize: number, jsonSize: number;
+            try {
+                txtSize = fs.existsSync(prefix + "txt.log") ? fs.statSync(prefix + "txt.log").size : 0;
+                jsonSize = fs.existsSync(prefix + "json.log") ? fs.statSync(prefix + "json.log").size : 0;
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                throw new Error(`Couldn't read the size of the log files at ${prefix}: ${reason}`);
+            }
+
+            if (this.current != undefined) this.finishFiles(this.current);
+            this.current = { logLocation: logLocation, index: index, txtSize: txtSize, jsonSize: jsonSize };
+        }
+
+        const maxFileSize = this.settings.maxFileSize;
+        if (
+            maxFileSize > 0 &&
+            (this.current.txtSize > 0 || this.current.jsonSize > 0) &&
+            (this.current.txtSize + txtBytes > maxFileSize || this.current.jsonSize + jsonBytes > maxFileSize)
+        ) {
+            this.finishFiles({ ...this.current });
+            this.current.index++;
+            this.current.txtSize = 0;
+            this.current.jsonSize = 0;
+        }
+
+        this.current.txtSize += txtBytes;
+        this.current.jsonSize += jsonBytes;
+
+        return this.filesFor(this.current);
+    }
+
+    private filesFor(current: { logLocation: string; index: number }) {
+        const prefix = current.logLocation + (current.index > 0 ? `${current.index}.` : "");
+        return { txtFile: prefix + "txt.log", jsonFile: prefix + "json.log" };
+    }
+
+    // Called once files won't be written to again, compresses them then applies retention in the background
+    private finishFiles(finished: { logLocation: string; index: number }) {
+        const { txtFile, jsonFile } = this.filesFor(finished);
+        if (this.settings.compress) this.compressing.add(jsonFile);
+
+        (async () => {
+            await this.writer.closeFile(txtFile);
+            await this.writer.closeFile(jsonFile);
+            if (this.settings.compress) {
+                await compressFile(txtFile);
+                await compressFile(jsonFile);
+            }
+        })()
+            .catch((error) => this.report("ERROR", "There was an issue compressing old log files", error))
+            .finally(() => {
+                this.compressing.delete(jsonFile);
+                this.cleanUp();
+            });
+    }
+
+    // Deletes old log files in the background, according to the retention settings
+    private cleanUp() {
+        // One clean up at a time, so two of them don't try to delete the same files
+        this.cleaning = this.cleaning
+            .then(() => {
+                const activeFiles = this.current != undefined ? Object.values(this.filesFor(this.current)) : [];
+                return applyRetention(this.settings, activeFiles);
+            })
+            .catch((error) => this.report("ERROR", "There was an issue deleting old log files", error));
+    }
+}
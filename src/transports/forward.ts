@@ -0,0 +1,65 @@
+import * as Types from "../types";
+import { forwardMessage } from "../cluster";
+
+/**
+ * Sends every log to a primary process or thread, which writes it with its own outputs.
+ * Used by loggers with the worker role, so only one writer touches the log files.
+ */
+export default class ForwardTransport implements Types.Transport {
+    public minLevel?: Types.LogLevel;
+    public ignoreLevels?: Types.LogLevel[];
+    public formatter?: (record: Types.LogRecord) => string;
+
+    private port: Types.LogPort;
+    private sending: number = 0;
+    private waitingForSent: (() => void)[] = [];
+    private closed: boolean = false;
+    private failed: boolean = false;
+
+    constructor(port: Types.LogPort, options: Types.TransportOptions = {}) {
+        this.port = port;
+        this.minLevel = options.minLevel;
+        this.ignoreLevels = options.ignoreLevels;
+        this.formatter = options.formatter;
+    }
+
+    write(record: Types.LogRecord) {
+        if (this.closed) return;
+        const message = forwardMessage(record);
+
+        try {
+            if ("postMessage" in this.port) return this.port.postMessage(message);
+
+            // IPC sends are asynchronous, so they're counted until they've gone for flush to wait on
+            this.sending++;
+            this.port.send(message, (error) => {
+                this.sending--;
+                if (error != null) this.fail(error);
+                if (this.sending == 0) for (const resolve of this.waitingForSent.splice(0)) resolve();
+            });
+        } catch (error) {
+            this.fail(error);
+        }
+    }
+
+    /**
+     * Resolves once every log has been handed to the primary
+     */
+    flush(): Promise<void> {
+        if (this.sending == 0) return Promise.resolve();
+        return new Promise((resolve) => this.waitingForSent.push(resolve));
+    }
+
+    // The port belongs to the host, so it's left open
+    async close() {
+        await this.flush();
+        this.closed = true;
+    }
+
+    // Logging this would only send it down the same broken channel, so it's only shown once in stderr
+    private fail(error: unknown) {
+        if (this.failed) return;
+        this.failed = true;
+        console.error("There was an issue sending logs to the primary", error);
+    }
+}
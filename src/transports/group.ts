@@ -0,0 +1,36 @@
+import * as Types from "../types";
+import { acceptsLevel } from "../levels";
+
+/**
+ * Sends logs to several transports as one, so a built in output can have more than one destination.
+ * Each transport still gets only the levels it accepts.
+ */
+export default class TransportGroup implements Types.Transport {
+    public minLevel?: Types.LogLevel;
+    public ignoreLevels?: Types.LogLevel[];
+    public formatter?: (record: Types.LogRecord) => string;
+
+    public transports: Types.Transport[];
+
+    constructor(transports: Types.Transport[]) {
+        this.transports = transports;
+    }
+
+    write(record: Types.LogRecord): void | Promise<void> {
+        const waitingFor: Promise<void>[] = [];
+        for (const transport of this.transports) {
+            if (!acceptsLevel(transport, record.logLevel)) continue;
+            const written = transport.write(record);
+            if (written instanceof Promise) waitingFor.push(written);
+        }
+        if (waitingFor.length > 0) return Promise.all(waitingFor).then(() => {});
+    }
+
+    async flush() {
+        await Promise.all(this.transports.map((transport) => transport.flush()));
+    }
+
+    async close() {
+        await Promise.all(this.transports.map((transport) => transport.close()));
+    }
+}
@@ -0,0 +1,15 @@
+import * as Types from "../types";
+
+/**
+ * Where transports report their own issues when they aren't given a report function
+ */
+export function reportToConsole(logLevel: Types.LogLevel, message: any, data?: any) {
+    console.error(`[${logLevel}]`, message, data);
+}
+
+/**
+ * Lets the process exit with this timer or socket still open, logging is never a reason to keep it running
+ */
+export function unref(handle: { unref?: () => unknown }) {
+    handle.unref?.();
+}
@@ -0,0 +1,35 @@
+import * as Types from "../types";
+import { formLogJSON } from "../format";
+
+/**
+ * Keeps logs in memory as LogJSON, the same shape as the JSON log files, for tests to check.
+ * Loggers with testMode send their logs to one of these instead of stdout, files and webhooks.
+ */
+export default class MemoryTransport implements Types.Transport {
+    public minLevel?: Types.LogLevel;
+    public ignoreLevels?: Types.LogLevel[];
+    public formatter?: (record: Types.LogRecord) => string;
+
+    public logs: Types.LogJSON[] = [];
+
+    constructor(options: Types.TransportOptions = {}) {
+        this.minLevel = options.minLevel;
+        this.ignoreLevels = options.ignoreLevels;
+        this.formatter = options.formatter;
+    }
+
+    write(record: Types.LogRecord) {
+        this.logs.push(formLogJSON(record));
+    }
+
+    /**
+     * Returns every log kept so far and forgets them, so the next check only sees new logs
+     */
+    drain(): Types.LogJSON[] {
+        return this.logs.splice(0);
+    }
+
+    async flush() {}
+
+    async close() {}
+}
@@ -0,0 +1,177 @@
+import * as net from "node:net";
+import { createRequire } from "node:module";
+import * as Types from "../types";
+import { defaultSettings } from "../settings";
+import { formSyslog } from "../syslog";
+import { reportToConsole, unref } from "./helpers";
+
+// bun-types doesn't declare node:dgram, so it's required by name with the parts we use typed here
+type UdpSocket = {
+    send(message: string, port: number, address: string, callback: (error: Error | null) => void): void;
+    on(event: "error", listener: (error: Error) => void): void;
+    unref(): void;
+    close(): void;
+};
+const dgram: { createSocket(type: "udp4" | "udp6"): UdpSocket } = createRequire(import.meta.url)("node:dgram");
+
+// Longest wait between reconnection attempts
+const maxReconnectDelayMs = 30 * 1000;
+
+/**
+ * Sends logs to a syslog collector as RFC 5424 messages, over UDP, TCP or a Unix stream socket.
+ * Unix datagram sockets, like /dev/log on most Linux systems, can't be sent to from Node.
+ * TCP and Unix connections are reconnected with backoff, holding logs back whilst the collector is down.
+ */
+export default class SyslogTransport implements Types.Transport {
+    public minLevel?: Types.LogLevel;
+    public ignoreLevels?: Types.LogLevel[];
+    public formatter?: (record: Types.LogRecord) => string;
+
+    public stats: Types.SyslogStats = { sent: 0, dropped: 0 };
+
+    private settings: Types.LogSyslogSettings;
+    private report: (logLevel: Types.LogLevel, message: any, data?: any) => void;
+
+    private udp?: UdpSocket;
+    private udpSending: number = 0;
+    private socket?: net.Socket;
+    private lastWrite?: Promise<void>;
+    private connected: boolean = false;
+    private queue: string[] = [];
+    private reconnectDelayMs: number;
+    private reconnectTimer?: ReturnType<typeof setTimeout>;
+    private closing: boolean = false;
+    private down: boolean = false;
+    private waitingForSent: (() => void)[] = [];
+
+    constructor(settings: Partial<Types.LogSyslogSettings> = {}, options: Types.TransportOptions = {}) {
+        this.settings = { ...defaultSettings.syslog, ...settings };
+        this.minLevel = options.minLevel ?? this.settings.minLevel;
+        this.ignoreLevels = options.ignoreLevels;
+        this.formatter = options.formatter;
+        this.report = options.report ?? reportToConsole;
+        this.reconnectDelayMs = this.settings.reconnectDelayMs;
+
+        if (this.settings.protocol == "udp") {
+            this.udp = dgram.createSocket(net.isIPv6(this.settings.host) ? "udp6" : "udp4");
+            this.udp.on("error", (error) => this.failed("Syslog socket error", error));
+            unref(this.udp);
+        } else if (this.settings.protocol == "unix" && this.settings.path == "") {
+            this.report("ERROR", "Syslog needs a path to connect to a Unix socket");
+        } else {
+            this.connect();
+        }
+    }
+
+    write(record: Types.LogRecord) {
+        if (record.logLevel == "FATALRATE") return; // Issues sending to syslog shouldn't be sent to syslog
+        if (this.closing) return;
+
+        // A datagram can only hold so much, so UDP messages are cut down to fit
+        const maxBytes = this.udp != undefined ? this.settings.maxMessageSize : undefined;
+        const message = formSyslog(record, this.settings, this.formatter?.(record), maxBytes);
+
+        if (this.udp != undefined) return this.sendUdp(message);
+
+        this.queue.push(this.frame(message));
+        if (this.queue.length > this.settings.maxQueueSize) {
+            this.queue.shift();
+            this.stats.dropped++;
+        }
+        if (this.connected) this.sendQueue();
+    }
+
+    /**
+     * Resolves once everything has been handed to the OS, or straight away if the collector is down
+     */
+    flush(): Promise<void> {
+        if (this.udp != undefined) {
+            if (this.udpSending == 0) return Promise.resolve();
+            return new Promise((resolve) => this.waitingForSent.push(resolve));
+        }
+
+        if (!this.connected || this.lastWrite == undefined) return Promise.resolve();
+        return this.lastWrite;
+    }
+
+    async close() {
+        await this.flush();
+        this.closing = true;
+        if (this.reconnectTimer != undefined) clearTimeout(this.reconnectTimer);
+
+        if (this.queue.length > 0) {
+            this.stats.dropped += this.queue.length;
+            console.error("Syslog collector is down, dropping logs:", this.queue.length);
+            this.queue = [];
+        }
+
+        this.udp?.close();
+        this.socket?.end();
+    }
+
+    private sendUdp(message: string) {
+        this.udpSending++;
+        this.udp!.send(message, this.settings.port, this.settings.host, (error) => {
+            this.udpSending--;
+            if (error != null) {
+                this.stats.dropped++;
+                this.failed("Syslog failed to send", error);
+            } else {
+                this.stats.sent++;
+                this.down = false;
+            }
+            if (this.udpSending == 0) for (const resolve of this.waitingForSent.splice(0)) resolve();
+        });
+    }
+
+    // RFC 6587 octet counting puts the message's length in bytes in front of it
+    private frame(message: string): string {
+        return this.settings.framing == "newline"
+            ? message.replace(/\n/g, " ") + "\n"
+            : `${Buffer.byteLength(message)} ${message}`;
+    }
+
+    private connect() {
+        const socket =
+            this.settings.protocol == "unix"
+                ? net.createConnection(this.settings.path)
+                : net.createConnection({ host: this.settings.host, port: this.settings.port });
+        unref(socket);
+        this.socket = socket;
+
+        socket.on("connect", () => {
+            this.connected = true;
+            this.down = false;
+            this.reconnectDelayMs = this.settings.reconnectDelayMs;
+            this.sendQueue();
+        });
+        socket.on("error", (error) => this.failed("Syslog connection failed", error));
+        socket.on("close", () => {
+            this.connected = false;
+            this.socket = undefined;
+            if (this.closing) return;
+
+            this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelayMs);
+            unref(this.reconnectTimer);
+            this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, maxReconnectDelayMs);
+        });
+    }
+
+    private sendQueue() {
+        const socket = this.socket;
+        if (socket == undefined) return;
+
+        const messages = this.queue.splice(0);
+        if (messages.length == 0) return;
+        // Writes finish in order, so flush only has to wait for the latest one
+        this.lastWrite = new Promise((resolve) => socket.write(messages.join(""), () => resolve()));
+        this.stats.sent += messages.length;
+    }
+
+    // Only says the collector is down once, until it comes back up
+    private failed(message: string, error: Error) {
+        if (this.down) return;
+        this.down = true;
+        this.report("FATALRATE", message, { error: error.message, protocol: this.settings.protocol });
+    }
+}
@@ -0,0 +1,165 @@
+import * as Types from "../types";
+import { defaultThrottleSettings } from "../settings";
+import { unref } from "./helpers";
+
+// Most message keys to remember rate limits for, full buckets are forgotten first
+const maxBuckets = 1000;
+
+/**
+ * Wraps another transport, sampling, deduplicating and rate limiting the logs it receives.
+ * Dropped logs are summed up in "repeated N times" / "rate limited" logs, so floods stay visible without filling
+ * disks or webhook queues.
+ * @example
+    new ThrottledTransport(new WebhookTransport(settings), { dedupeWindowMs: 10000, rateLimit: 1 });
+ */
+export default class ThrottledTransport implements Types.Transport {
+    public inner: Types.Transport;
+    public stats: Types.ThrottleStats = { sampled: 0, deduplicated: 0, rateLimited: 0 };
+
+    private settings: Types.ThrottleSettings;
+
+    // Message keys seen in the current dedupe window, with their latest repeat
+    private repeats: Map<string, { record: Types.LogRecord; count: number; timer: ReturnType<typeof setTimeout> }> =
+        new Map();
+    // Token buckets for each message key, with the logs dropped since the last one let through
+    private buckets: Map<string, { tokens: number; updated: number; dropped: number; record?: Types.LogRecord }> =
+        new Map();
+
+    constructor(inner: Types.Transport, settings: Partial<Types.ThrottleSettings> = {}) {
+        this.inner = inner;
+        this.settings = { ...defaultThrottleSettings, ...settings };
+    }
+
+    get minLevel() {
+        return this.inner.minLevel;
+    }
+
+    get ignoreLevels() {
+        return this.inner.ignoreLevels;
+    }
+
+    get formatter() {
+        return this.inner.formatter;
+    }
+
+    write(record: Types.LogRecord) {
+        const sampleRate = this.settings.sample[record.logLevel];
+        if (sampleRate != undefined && Math.random() >= sampleRate) {
+            this.stats.sampled++;
+            return;
+        }
+
+        const key = this.settings.key(record);
+
+        if (this.settings.dedupeWindowMs > 0) {
+            const repeat = this.repeats.get(key);
+            if (repeat != undefined) {
+                repeat.count++;
+                repeat.record = record;
+                this.stats.deduplicated++;
+                return;
+            }
+
+            const timer = setTimeout(() => this.endRepeats(key), this.settings.dedupeWindowMs);
+            unref(timer);
+            this.repeats.set(key, { record, count: 0, timer });
+        }
+
+        if (this.settings.rateLimit > 0 && !this.takeToken(key, record)) {
+            this.stats.rateLimited++;
+            return;
+        }
+
+        return this.inner.write(record);
+    }
+
+    /**
+     * Writes out the repeat and rate limit summaries so far, then flushes the wrapped transport
+     */
+    async flush() {
+        this.summarise();
+        await this.inner.flush();
+    }
+
+    async close() {
+        this.summarise();
+        await this.inner.close();
+    }
+
+    private summarise() {
+        for (const key of [...this.repeats.keys()]) this.endRepeats(key);
+        for (const bucket of this.buckets.values()) this.endRateLimit(bucket);
+    }
+
+    private endRepeats(key: string) {
+        const repeat = this.repeats.get(key);
+        if (repeat == undefined) return;
+
+        clearTimeout(repeat.timer);
+        this.repeats.delete(key);
+        if (repeat.count > 0)
+            this.writeSummary(
+                repeat.record,
+                `last message repeated ${repeat.count} time${repeat.count == 1 ? "" : "s"}`,
+            );
+    }
+
+    private endRateLimit(bucket: { dropped: number; record?: Types.LogRecord }) {
+        if (bucket.dropped == 0 || bucket.record == undefined) return;
+
+        this.writeSummary(
+            bucket.record,
+            `${bucket.dropped} similar log${bucket.dropped == 1 ? " was" : "s were"} rate limited`,
+        );
+        bucket.dropped = 0;
+        bucket.record = undefined;
+    }
+
+    // The latest dropped log, with a note saying how many were dropped
+    private writeSummary(record: Types.LogRecord, note: string) {
+        const { durationMs, ...summary } = record;
+        const written = this.inner.write({ ...summary, logMessage: `${record.logMessage} (${note})` });
+        if (written instanceof Promise)
+            written.catch((error) => console.error("There was an issue writing a summary", error));
+    }
+
+    private takeToken(key: string, record: Types.LogRecord): boolean {
+        const now = Date.now();
+        const { rateLimit, burst } = this.settings;
+
+        let bucket = this.buckets.get(key);
+        if (bucket == undefined) {
+            if (this.buckets.size >= maxBuckets) this.forgetFullBuckets(now);
+            bucket = { tokens: burst, updated: now, dropped: 0 };
+            this.buckets.set(key, bucket);
+        }
+
+        bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updated) / 1000) * rateLimit);
+        bucket.updated = now;
+
+        if (bucket.tokens < 1) {
+            bucket.dropped++;
+            bucket.record = record;
+            return false;
+        }
+
+        bucket.tokens--;
+        // Let the summary through first, so it comes before the logs that follow it
+        this.endRateLimit(bucket);
+        return true;
+    }
+
+    private forgetFullBuckets(now: number) {
+        const { rateLimit, burst } = this.settings;
+        for (const [key, bucket] of this.buckets) {
+            const tokens = bucket.tokens + ((now - bucket.updated) / 1000) * rateLimit;
+            if (tokens >= burst && bucket.dropped == 0) this.buckets.delete(key);
+        }
+        // Still too many, so forget the oldest
+        if (this.buckets.size >= maxBuckets) {
+            const [oldest, bucket] = this.buckets.entries().next().value!;
+            this.endRateLimit(bucket);
+            this.buckets.delete(oldest);
+        }
+    }
+}
@@ -0,0 +1,207 @@
+import fetch, { type Headers, type Response } from "node-fetch";
+import * as Types from "../types";
+import { defaultSettings } from "../settings";
+import { webhookFormatter } from "../webhooks";
+import { fillTemplateString } from "../format";
+import { reportToConsole, unref } from "./helpers";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sends logs to a discord, slack, teams or generic JSON webhook in batches.
+ * Batches are sent when full or on an interval, retried with backoff and held back while rate limited.
+ */
+export default class WebhookTransport implements Types.Transport {
+    public minLevel?: Types.LogLevel;
+    public ignoreLevels?: Types.LogLevel[];
+    public formatter?: (record: Types.LogRecord) => string;
+
+    public stats: Types.WebhookStats = { sent: 0, retried: 0, dropped: 0 };
+
+    private settings: Types.LogWebhookSettings;
+    private report: (logLevel: Types.LogLevel, message: any, data?: any) => void;
+    private webhookFormatter?: Types.WebhookFormatter;
+
+    private webhookBuffer: { item: any; username: string }[] = [];
+    private sending?: Promise<void>;
+    private interval?: ReturnType<typeof setInterval>;
+    private rateLimitedUntil: number = 0;
+    private overflowing: boolean = false;
+
+    constructor(settings: Partial<Types.LogWebhookSettings> = {}, options: Types.TransportOptions = {}) {
+        this.settings = { ...defaultSettings.logWebook, ...settings };
+        this.minLevel = options.minLevel ?? this.settings.minLevel;
+        this.ignoreLevels = options.ignoreLevels;
+        this.formatter = options.formatter;
+        this.report = options.report ?? reportToConsole;
+
+        this.webhookFormatter = webhookFormatter(this.settings);
+        if (this.webhookFormatter == undefined) this.report("ERROR", "Unknown webhook form", this.settings.form);
+
+        if (this.settings.url != undefined && this.settings.flushIntervalMs > 0) {
+            this.interval = setInterval(() => this.flush(), this.settings.flushIntervalMs);
+            unref(this.interval);
+        }
+    }
+
+    write(record: Types.LogRecord) {
+        if (record.logLevel == "FATALRATE") return; // ! Very important. This prevents a discord error due to rate limiting from sending another message and further rate limiting.
+        if (this.settings.url == undefined || this.webhookFormatter == undefined) return;
+        if (!this.accepts(record)) return;
+
+        const logDataString = this.formatter != undefined ? this.formatter(record) : record.logData;
+
+        this.webhookBuffer.push({
+            item: this.webhookFormatter.formItem(record, logDataString),
+            username: fillTemplateString(this.settings.username, record),
+        });
+
+        if (this.webhookBuffer.length > this.settings.maxQueueSize) {
+            this.webhookBuffer.shift();
+            this.stats.dropped++;
+            if (!this.overflowing)
+                this.report("FATALRATE", "Webhook queue is full, dropping oldest logs", this.settings.maxQueueSize);
+            this.overflowing = true;
+        }
+
+        if (this.webhookBuffer.length >= this.webhookFormatter.batchSize) this.flush();
+    }
+
+    /**
+     * Sends everything queued, one batch at a time. Resolves once the queue is empty.
+     */
+    flush(): Promise<void> {
+        if (this.sending == undefined)
+            this.sending = this.drain().finally(() => {
+                this.sending = undefined;
+            });
+        return this.sending;
+    }
+
+    async close() {
+        if (this.interval != undefined) clearInterval(this.interval);
+        if (this.settings.url == undefined || (this.webhookBuffer.length == 0 && this.sending == undefined)) return;
+
+        try {
+            await this.flush();
+        } catch (error) {
+            console.error("Webhook failed to send", { error: error });
+        }
+    }
+
+    private async drain() {
+        if (this.webhookFormatter == undefined) return;
+
+        while (this.webhookBuffer.length > 0) {
+            // Each request can only have one username, so batches are split where it changes.
+            // They are also kept under the webhook's length limit, if it has one
+            const { batchSize, maxBatchLength, itemLength } = this.webhookFormatter;
+            const lengthOf = (index: number) => itemLength?.(this.webhookBuffer[index].item) ?? 0;
+            const username = this.webhookBuffer[0].username;
+            let count = 1;
+            let length = lengthOf(0);
+            while (
+                count < this.webhookBuffer.length &&
+                count < batchSize &&
+                this.webhookBuffer[count].username == username &&
+                (maxBatchLength == undefined || length + lengthOf(count) <= maxBatchLength)
+            )
+                length += lengthOf(count++);
+
+            const items = this.webhookBuffer.splice(0, count).map((entry) => entry.item);
+            await this.deliver(items, username);
+        }
+    }
+
+    private async deliver(items: any[], username: string) {
+        if (this.settings.url == undefined || this.webhookFormatter == undefined) return;
+
+        const body = JSON.stringify(this.webhookFormatter.formBody(items, username, this.settings.avatarUrl));
+        let lastError: any;
+
+        for (let attempt = 0; attempt <= this.settings.maxRetries; attempt++) {
+            if (attempt > 0) this.stats.retried++;
+
+            const waitFor = this.rateLimitedUntil - Date.now();
+            if (waitFor > 0) await sleep(waitFor);
+
+            let backoff = this.settings.retryDelayMs * 2 ** attempt;
+
+            try {
+                const res = await fetch(this.settings.url, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        ...this.settings.headers,
+                    },
+                    body: body,
+                });
+
+                this.updateRateLimit(res.headers);
+
+                if (res.ok) {
+                    this.stats.sent += items.length;
+                    this.overflowing = false;
+                    return;
+                }
+
+                lastError = { status: res.status, message: res.statusText };
+
+                if (res.status == 429) {
+                    // Rate limited, wait for as long as we are told to instead of backing off
+                    this.rateLimitedUntil = Date.now() + (await this.retryAfter(res, backoff));
+                    backoff = 0;
+                } else if (res.status == 400 && items.length > 1) {
+                    // Most likely too big, so send each half on its own rather than dropping the lot
+                    const half = Math.ceil(items.length / 2);
+                    await this.deliver(items.slice(0, half), username);
+                    await this.deliver(items.slice(half), username);
+                    return;
+                } else if (res.status < 500) {
+                    // The webhook won't accept this request however many times it is sent
+                    break;
+                }
+            } catch (error) {
+                lastError = error;
+            }
+
+            if (attempt < this.settings.maxRetries && backoff > 0) await sleep(backoff);
+        }
+
+        this.stats.dropped += items.length;
+        this.report("FATALRATE", "Webhook failed to send, dropping logs", { count: items.length, error: lastError });
+    }
+
+    // The destination's level and process filters, on top of minLevel
+    private accepts(record: Types.LogRecord): boolean {
+        const { levels, mainProcess, subProcess } = this.settings;
+        const matches = (filter: string | RegExp, value: string) =>
+            typeof filter == "string" ? value == filter : filter.test(value);
+
+        if (levels != undefined && !levels.includes(record.logLevel)) return false;
+        if (mainProcess != undefined && !matches(mainProcess, record.mainProcess)) return false;
+        if (subProcess != undefined && !matches(subProcess, record.subProcess)) return false;
+        return true;
+    }
+
+    // Milliseconds to wait after a 429, from discord's retry_after or the standard headers
+    private async retryAfter(res: Response, fallback: number): Promise<number> {
+        try {
+            const body: any = await res.json();
+            if (typeof body.retry_after == "number") return body.retry_after * 1000;
+        } catch (error) {}
+
+        const header = res.headers.get("retry-after") ?? res.headers.get("x-ratelimit-reset-after");
+        if (header != null && !isNaN(Number(header))) return Number(header) * 1000;
+
+        return fallback;
+    }
+
+    // Holds back the next request if this one used up the rate limit bucket
+    private updateRateLimit(headers: Headers) {
+        const remaining = headers.get("x-ratelimit-remaining");
+        const resetAfter = headers.get("x-ratelimit-reset-after");
+        if (remaining == "0" && resetAfter != null && !isNaN(Number(resetAfter)))
+            this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + Number(resetAfter) * 1000);
+    }
+}
@@ -1,3 +1,5 @@
+import type Logger from "./index";
+
 export type LogStorageSettings = {
     path: string; // Location for logs to be placed
     json: boolean; // Enable json logging
@@ -5,15 +7,116 @@ export type LogStorageSettings = {
     splitBy: "don't split" | "year" | "month" | "day" | "hour" | "minute" | "second"; // Split up log files by time
     stratagy: "single" | "batch"; // How to handle disk accesses: single = every log means update logfile. batch = every x amount of logs means update
     batch: number; // x count for log amounts
+    flushIntervalMs: number; // With "batch", write out partial batches this often. 0 to only write full batches
+    flushLevel: LogLevel | undefined; // With "batch", logs at or above this level are written straight away
     ignoreLevels: LogLevel[]; // If you don't want to store certain levels
+    minLevel: LogLevel | undefined; // Only store logs at or above this level
+    maxFileSize: number; // Bytes before moving on to the next file (dd.1.json.log, dd.2.json.log...), 0 to never rotate
+    maxAgeDays: number; // Delete log files older than this, 0 to keep them forever
+    maxTotalSize: number; // Delete the oldest log files once all of them add up to more bytes than this, 0 for no limit
+    maxFiles: number; // Delete the oldest log files once there are more than this, 0 for no limit
+    compress: boolean; // Gzip log files once they are no longer being written to
+    format?: LogFormat; // Format of the txt files, defaults to the stdout format. JSON files are always LogJSON
+    template?: string; // Template for the txt files, defaults to the stdout template
+    singleLine?: boolean; // Keep each log in the txt files on one line, defaults to the stdout setting
+    maxQueueSize: number; // Most writes waiting to go to disk before the overflow policy kicks in
+    overflow: "block" | "drop oldest" | "drop newest"; // block = awaiting a log waits for room in the queue
+    fsync: boolean; // Make flush wait until the OS has written the files to disk
+    throttle?: Partial<ThrottleSettings>; // Sampling, deduplication and rate limiting for the files
 };
 
 export type LogWebhookSettings = {
     enable: boolean; // Send to webhook
+    name?: string; // Names the destination, so alert rules can send to it
     url: URL | undefined; // URL for webhook
-    form?: "" | "discord"; // Formation of webhook
+    minLevel: LogLevel | undefined; // Only send logs at or above this level
+    levels?: LogLevel[]; // Only send logs at one of these levels, eg. ["AUDIT"]
+    mainProcess?: string | RegExp; // Only send logs from this main process
+    subProcess?: string | RegExp; // Only send logs from this sub process, eg. /^\/payments/
+    username: string; // Who the logs are from in discord, slack and teams, "{main}" and "{sub}" are filled in from the log
+    avatarUrl?: string; // Picture for the username in discord and slack
+    form?: "" | "discord" | "slack" | "teams" | "teams-adaptive" | "json"; // Formation of webhook
+    headers?: { [key: string]: string }; // Extra headers to send, eg. Authorization
+    template?: any; // Body for "json" webhooks, strings like "{level}: {message}" are filled in from the log
+    flushIntervalMs: number; // Send partial batches this often, 0 to only send full batches
+    maxRetries: number; // Times to retry a failed request before dropping its logs
+    retryDelayMs: number; // First retry delay, doubled after each failure
+    maxQueueSize: number; // Most logs to hold while the webhook is unavailable, oldest are dropped first
+    throttle?: Partial<ThrottleSettings>; // Sampling, deduplication and rate limiting for the webhook
+};
+
+export type ThrottleSettings = {
+    sample: { [level: string]: number }; // Share of logs to keep for each level, eg. { DEBUG: 0.1 } keeps 1 in 10. Levels left out keep all
+    rateLimit: number; // Logs per second allowed for each message key, 0 for no limit
+    burst: number; // Logs a message key can send at once before rateLimit applies
+    dedupeWindowMs: number; // Repeats of a message key within this long are collapsed into one "repeated N times" log, 0 to turn off
+    key: (record: LogRecord) => string; // What counts as the same message, level, process and message by default
+};
+
+export type ThrottleStats = {
+    sampled: number; // Logs left out by sampling
+    deduplicated: number; // Repeats collapsed into "repeated N times" logs
+    rateLimited: number; // Logs dropped by the rate limit
+};
+
+export type LogSyslogSettings = {
+    enable: boolean; // Send to a syslog collector, eg. rsyslog
+    protocol: "udp" | "tcp" | "unix"; // unix connects to a stream socket at path, datagram sockets aren't supported
+    host: string; // Collector for udp and tcp
+    port: number; // Usually 514
+    path: string; // Stream socket for unix. There's no default, as /dev/log is usually a datagram socket
+    framing: "octet-counting" | "newline"; // How tcp and unix messages are separated, octet-counting is RFC 6587's
+    facility: number; // Syslog facility, 1 is user-level, 16 to 23 are local0 to local7
+    enterpriseId: number; // Used in the STRUCTURED-DATA ids, eg. data@32473
+    minLevel: LogLevel | undefined; // Only send logs at or above this level
+    reconnectDelayMs: number; // First wait before reconnecting to tcp and unix collectors, doubled after each failure
+    maxQueueSize: number; // Most logs to hold whilst the collector is down, oldest are dropped first
+    maxMessageSize: number; // Longest udp message in bytes, up to 65507. STRUCTURED-DATA that won't fit is left out, MSG is cut short
+    throttle?: Partial<ThrottleSettings>; // Sampling, deduplication and rate limiting for syslog
+};
+
+export type SyslogStats = {
+    sent: number; // Logs written to the collector
+    dropped: number; // Logs given up on, after failing or overflowing the queue
+};
+
+// Where a worker sends its logs, eg. a worker_threads MessagePort / parentPort, or a child process's IPC channel
+export type LogPort =
+    { postMessage(message: any): void } | { send(message: any, callback: (error: Error | null) => void): unknown };
+
+// Where a primary receives logs from, eg. a worker_threads Worker or MessagePort, or a ChildProcess
+export type LogSource = { on(event: "message", listener: (message: any) => void): any };
+
+export type ClusterSettings = {
+    role: "standalone" | "primary" | "worker"; // Workers send every log to the primary, which writes them with its own outputs. primary receives from node:cluster workers
+    port: LogPort | undefined; // Where a worker sends logs, defaults to its worker thread's parentPort or the process's IPC channel
+};
+
+export type AlertRule = {
+    name: string; // Shown in the alert, eg. "Payments failing"
+    target: string; // Which of the alert targets to send to
+    when: LogExpectation; // Which logs count, eg. { level: "ERROR", subProcess: "/payments" } or { message: /disk full/ }
+    threshold?: number; // Alert once more than this many logs count within windowMs, 0 alerts on the first one
+    windowMs?: number; // How long a log counts for
+    cooldownMs?: number; // Quiet period after an alert, logs that count during it are summed up in the next alert
+    resolve?: boolean; // Send a "resolved" alert once no more than threshold logs count within windowMs
 };
 
+export type AlertSettings = {
+    targets: { [name: string]: Partial<LogWebhookSettings> }; // Webhooks alerts are sent to, by name. Always enabled, with every level
+    rules: AlertRule[]; // Checked against every log, in the primary for cluster workers
+};
+
+export type WebhookStats = {
+    sent: number; // Logs delivered
+    retried: number; // Requests that had to be sent again
+    dropped: number; // Logs given up on, after failing or overflowing the queue
+};
+
+// text is the "[date] <main.sub> [LEVEL] message" layout, ecs is Elastic Common Schema JSON and otel is an
+// OpenTelemetry log record as JSON. template fills in the template setting
+export type LogFormat = "text" | "logfmt" | "ecs" | "otel" | "template";
+
 export type LogFormatSettings = {
     stdoutEnable: boolean; // Enable stdout
     mainProgram: boolean; // Display of main process/program in txt logs and stdout
@@ -21,31 +124,149 @@ export type LogFormatSettings = {
     date: boolean; // Display Date in txt logs and stdout
     dateformat: string; // Formatting of dates for logs
     level: boolean; // Display the level of a log in logs
+    context: boolean; // Display context (eg. from withContext) in txt logs and stdout, as {requestId=abc userId=42}
+    format: LogFormat; // Layout of stdout and txt logs, the booleans above only apply to "text"
+    template: string; // Used by the "template" format, eg. "{date} {level:5} {main}/{sub} {msg} {data}". ":5" pads to 5 characters
+    singleLine: boolean; // Keep each log on one line for line based shippers, data is shown as compact JSON and newlines as "\n"
     ignoreLevels: LogLevel[]; // If you don't want to store certain levels
+    minLevel: LogLevel | undefined; // Only show logs at or above this level
+    theme: string | Theme; // Colours for stdout, the name of a built in or registered theme ("classic", "subtle", "badges", "mono") or your own
+    colour: "auto" | boolean; // "auto" colours stdout only when it's a TTY and NO_COLOR isn't set, FORCE_COLOR always colours it
+    throttle?: Partial<ThrottleSettings>; // Sampling, deduplication and rate limiting for stdout
+};
+
+// A chalk style like "bold.blue", a hex colour "#ff8800", a background "bg#ff8800", or your own function.
+// "level" uses the log level's colour, eg. "level.bold"
+export type ColourStyle = string | ((text: string) => string);
+
+export type Theme = {
+    date?: ColourStyle; // [date]
+    tag?: ColourStyle; // <main.sub>
+    context?: ColourStyle; // {requestId=abc}
+    level?: ColourStyle; // [LEVEL]
+    message?: ColourStyle; // The log message
+    data?: ColourStyle; // Log Data
+    line?: ColourStyle; // The whole log, after the parts are coloured. Also used with custom formatters
+    levels?: { [level: string]: ColourStyle }; // What "level" means for each level, others use their registered colour
+};
+
+// Colours each part of a txt log, given the part's text and the log's level
+export type TxtPainter = {
+    [part in "date" | "tag" | "context" | "level" | "message" | "data"]: (text: string, logLevel: LogLevel) => string;
+};
+
+export type SerializeSettings = {
+    maxDepth: number; // Objects nested deeper than this are shown as "[Object]"
+    maxArrayLength: number; // Items after this are left out of arrays and sets, and keys out of objects and maps
+    maxStringLength: number; // Characters after this are left out of strings
+    maxSize: number; // Roughly how many characters of JSON a logged value can become, anything after is left out
+};
+
+export type TimerSettings = {
+    level: LogLevel; // Level for timeEnd, startTimer and count logs without their own
+    slowMs: number; // Timers that take at least this long are logged at slowLevel instead, 0 to turn off
+    slowLevel: LogLevel; // Level for slow timers, eg. "WARN"
+};
+
+export type RedactAction = "mask" | "hash" | "remove";
+
+export type RedactSettings = {
+    paths: (string | { path: string; action: RedactAction })[]; // Keys to hide in logData, eg. "headers.authorization", "*.password" or "**.token"
+    patterns: (RegExp | { pattern: RegExp; action: RedactAction })[]; // Parts of any string to hide, eg. emails. Use the g flag
+    action: RedactAction; // What to do with matches that don't have their own action
+    mask: string; // What "mask" replaces matches with
 };
 
 export type LoggerSettings = {
     logStorage: LogStorageSettings;
-    logWebook: LogWebhookSettings;
+    logWebook: LogWebhookSettings; // Used for anything a webhook destination leaves out
+    syslog: LogSyslogSettings;
     show: LogFormatSettings;
+    serialize: SerializeSettings; // Limits for how much of the logged data is kept
+    redact: RedactSettings; // Secrets and personal data to hide before logs are sent anywhere
+    timers: TimerSettings; // Levels for time / timeEnd, startTimer and count
+    cluster: ClusterSettings; // Sharing one writer between processes or worker threads
+    alerts: AlertSettings; // Rules that send alerts to webhooks when logs match, eg. 5 ERRORs in a minute
+    levels: { [name: string]: LevelSettings }; // Custom levels, each one gets its own method
+    reloadOnSighup: boolean; // Re-read the LOUIS_LOG_* environment variables (and .env) when sent SIGHUP
+    handleProcessSignals: boolean; // Close the logger on SIGINT / SIGTERM, then re-raise them. Also logs uncaught errors as FATAL and exits with code 1
+    testMode: boolean; // Keep logs in memory for expectLogged, with no stdout, files, webhooks, syslog or process handlers. LOUIS_LOG_* is ignored
+    transports: Transport[]; // Extra transports to send logs to, alongside the built in ones
 };
 
 export type CustomLoggerSettings = {
     logStorage: Partial<LogStorageSettings>;
-    logWebook: Partial<LogWebhookSettings>;
+    logWebook: Partial<LogWebhookSettings> | Partial<LogWebhookSettings>[]; // One webhook, or a list of destinations
+    syslog: Partial<LogSyslogSettings>;
     show: Partial<LogFormatSettings>;
+    serialize: Partial<SerializeSettings>;
+    redact: Partial<RedactSettings>;
+    timers: Partial<TimerSettings>;
+    cluster: Partial<ClusterSettings>;
+    alerts: Partial<AlertSettings>;
+    levels: { [name: string]: LevelSettings };
+    reloadOnSighup: boolean;
+    handleProcessSignals: boolean;
+    testMode: boolean;
+    transports: Transport[];
+};
+
+export type BuiltInLevel = "FATAL" | "FATALRATE" | "ERROR" | "WARN" | "SUCCESS" | "INFO" | "DEBUG";
+
+// Any registered level, the built in ones still autocomplete
+export type LogLevel = BuiltInLevel | (string & {});
+
+export type LevelSettings = {
+    severity: number; // Higher is more severe. DEBUG is 10, INFO 20, WARN 30, ERROR 40, FATAL 50
+    colour: string; // Hex colour used by stdout and webhooks, eg. "#00ffff"
 };
 
-export type LogLevel = "FATAL" | "FATALRATE" | "ERROR" | "WARN" | "SUCCESS" | "INFO" | "DEBUG";
+export type LogMethod = (message: any, data?: any) => Promise<void>;
+
+// Methods for custom levels, "AUDIT" becomes logger.audit(...)
+export type LevelMethods<Levels extends string> = { [Level in Levels as Lowercase<Level>]: LogMethod };
 
 export type LogJSON = {
+    schemaVersion: number; // Missing from logs before logData was structured, 2 since, 3 added durationMs, 4 processID
     date: Date;
     formattedDate: string;
     mainProcess: string;
     subProcess: string;
     logLevel: string;
     logMessage: string;
-    logData: any;
+    logData: any; // The data as JSON, null if there wasn't any
+    context?: LogContext;
+    durationMs?: number; // Only on logs from timers
+    processID?: string; // The pid, with the thread id after a ":" for worker threads
+};
+
+// Which logs to show when reading log files back
+export type LogFilter = {
+    minLevel?: LogLevel; // Only logs at or above this level
+    levels?: LogLevel[]; // Only logs at one of these levels
+    mainProcess?: string;
+    subProcess?: string;
+    since?: Date; // Only logs from this time on
+    until?: Date; // Only logs up to this time
+    grep?: RegExp; // Only logs whose message or data match
+    match?: (log: LogJSON) => boolean; // Only logs this returns true for, eg. (log) => log.logData?.userId == 42
+};
+
+// What a log has to look like for expectLogged and alert rules, every field given has to match
+export type LogExpectation = LogFilter & {
+    level?: LogLevel; // Exactly this level
+    message?: string | RegExp; // The whole message, or a pattern found in it
+    data?: any; // What logData has to hold, objects only need the fields given and strings can be RegExps
+    context?: LogContext; // Fields the context has to hold, matched the same way as data
+};
+
+export type LogContext = { [key: string]: any };
+
+// The parts of a W3C traceparent header that matter for logs
+export type TraceContext = {
+    traceId: string; // 32 hex characters, the same for every service a request passes through
+    spanId: string; // 16 hex characters, the caller's span
+    sampled: boolean; // Whether the caller is recording this trace
 };
 
 export type LogBufferItem = {
@@ -56,6 +277,69 @@ export type LogBufferItem = {
 export type WebhookBufferItem = {
     title: string;
     description: string;
-    color: null;
+    color: number | null;
     footer: { text: string };
 };
+
+export type WebhookFormatter = {
+    batchSize: number; // Most logs that can be sent in one request
+    maxBatchLength?: number; // Most characters the items in one request can add up to, measured by itemLength
+    itemLength?: (item: any) => number; // How many characters an item counts for against maxBatchLength
+    formItem: (record: LogRecord, logData: string) => any; // A single log's part of the request
+    formBody: (items: any[], username: string, avatarUrl?: string) => any; // The full request body
+};
+
+export type LoggerShared = {
+    formatSettings: LogFormatSettings;
+    storageSettings: LogStorageSettings;
+    webhookSettings: LogWebhookSettings[]; // Each webhook destination
+    syslogSettings: LogSyslogSettings;
+    serializeSettings: SerializeSettings;
+    redactSettings: RedactSettings;
+    timerSettings: TimerSettings;
+    clusterSettings: ClusterSettings;
+    alertSettings: AlertSettings;
+    transports: Transport[];
+    timers: Map<string, number>; // When each running time() label was started, from performance.now()
+    counters: Map<string, number>; // Counts for each count() label
+    builtIn: {
+        console?: Transport;
+        file?: Transport;
+        webhook?: Transport;
+        syslog?: Transport;
+        alerts?: Transport;
+        memory?: Transport;
+    }; // The transports made from the settings
+    root: Logger; // The logger children were made from, the one tracked for shutdown and reloading
+    closing?: Promise<void>; // Set once close has been called
+};
+
+export type LogRecord = {
+    date: Date;
+    formattedDate: string;
+    mainProcess: string;
+    subProcess: string;
+    logLevel: LogLevel;
+    logMessage: string;
+    logData: string; // The data as text, for txt logs and webhooks
+    data: any; // The data as a JSON safe value, for structured outputs
+    context: LogContext;
+    durationMs?: number; // How long a timer took, for logs from timeEnd and startTimer
+    processID?: string; // The logger's processID, kept when a worker's log is written by the primary
+};
+
+export type Transport = {
+    minLevel?: LogLevel; // Lowest level this transport receives
+    ignoreLevels?: LogLevel[]; // Levels this transport never receives
+    formatter?: (record: LogRecord) => string; // Turns a record into text for this transport
+    write(record: LogRecord): void | Promise<void>; // Receive a log, may buffer it. A promise holds back the caller
+    flush(): Promise<void>; // Send anything buffered
+    close(): Promise<void>; // Flush and release any resources, no writes will follow
+};
+
+export type TransportOptions = {
+    minLevel?: LogLevel;
+    ignoreLevels?: LogLevel[];
+    formatter?: (record: LogRecord) => string;
+    report?: (logLevel: LogLevel, message: any, data?: any) => void; // Where a transport logs its own issues
+};
@@ -0,0 +1,294 @@
+import * as fs from "node:fs";
+import * as nodePath from "node:path";
+import * as zlib from "node:zlib";
+import * as readline from "node:readline";
+import * as Types from "./types";
+import { levelSeverity } from "./levels";
+import { toText } from "./serialize";
+
+const jsonLogFile = /^(.*?)\.(?:(\d+)\.)?json\.log(\.gz)?$/;
+// Most bytes of a file to hold in memory at once whilst following it
+const followChunkSize = 64 * 1024;
+
+/**
+ * Parses one line of a *.json.log file, returns undefined for blank or broken lines
+ */
+export function parseLogLine(line: string): Types.LogJSON | undefined {
+    if (line.trim() == "") return undefined;
+    try {
+        const log = JSON.parse(line);
+        if (typeof log != "object" || log == null || log.logLevel == undefined) return undefined;
+        return log;
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Turns a log read back from a file into a record, so it can be formatted like a new one
+ */
+export function logToRecord(log: Types.LogJSON): Types.LogRecord {
+    // Before schemaVersion 2 logData was already text
+    const data = log.schemaVersion == undefined ? null : log.logData;
+    const record: Types.LogRecord = {
+        date: new Date(log.date),
+        formattedDate: log.formattedDate,
+        mainProcess: log.mainProcess,
+        subProcess: log.subProcess,
+        logLevel: log.logLevel,
+        logMessage: log.logMessage,
+        logData: log.schemaVersion == undefined ? (log.logData ?? "") : toText(data),
+        data: data,
+        context: log.context ?? {},
+    };
+    if (log.durationMs != undefined) record.durationMs = log.durationMs;
+    if (log.processID != undefined) record.processID = log.processID;
+    return record;
+}
+
+/**
+ * Checks a log read back from a file against a filter
+ */
+export function matchesFilter(log: Types.LogJSON, filter: Types.LogFilter): boolean {
+    if (filter.minLevel != undefined && levelSeverity(log.logLevel) < levelSeverity(filter.minLevel)) return false;
+    if (filter.levels != undefined && !filter.levels.includes(log.logLevel)) return false;
+    if (filter.mainProcess != undefined && log.mainProcess != filter.mainProcess) return false;
+    if (filter.subProcess != undefined && log.subProcess != filter.subProcess) return false;
+
+    if (filter.since != undefined || filter.until != undefined) {
+        const time = new Date(log.date).getTime();
+        if (filter.since != undefined && time < filter.since.getTime()) return false;
+        if (filter.until != undefined && time > filter.until.getTime()) return false;
+    }
+
+    if (filter.grep != undefined) {
+        const record = logToRecord(log);
+        if (!filter.grep.test(record.logMessage) && !filter.grep.test(record.logData)) return false;
+    }
+
+    if (filter.match != undefined && !filter.match(log)) return false;
+
+    return true;
+}
+
+// Objects match if they have every expected field, so tests only need to give the parts they care about
+function matchesValue(actual: any, expected: any): boolean {
+    if (expected instanceof RegExp) return typeof actual == "string" && expected.test(actual);
+    if (Array.isArray(expected))
+        return (
+            Array.isArray(actual) &&
+            actual.length == expected.length &&
+            expected.every((item, index) => matchesValue(actual[index], item))
+        );
+    if (expected != null && typeof expected == "object")
+        return (
+            actual != null &&
+            typeof actual == "object" &&
+            Object.entries(expected).every(([key, value]) => matchesValue(actual[key], value))
+        );
+    return actual === expected;
+}
+
+/**
+ * Checks a log against an expectation, every field given has to match
+ */
+export function matchesExpectation(log: Types.LogJSON, expectation: Types.LogExpectation): boolean {
+    const { level, message, data, context, ...filter } = expectation;
+
+    if (level != undefined && log.logLevel != level) return false;
+    if (typeof message == "string" && log.logMessage != message) return false;
+    if (message instanceof RegExp && !message.test(log.logMessage)) return false;
+    if (data !== undefined && !matchesValue(log.logData, data)) return false;
+    if (context != undefined && !matchesValue(log.context ?? {}, context)) return false;
+
+    return matchesFilter(log, filter);
+}
+
+// Orders files by date, then rotation, so 20.json.log comes before 20.1.json.log and 20.10.json.log
+function sortKey(file: string): string {
+    const match = jsonLogFile.exec(nodePath.basename(file));
+    if (match == null) return file;
+    const index = (match[2] ?? "0").padStart(8, "0");
+    return `${nodePath.dirname(file)}/${match[1]}\0${index}`;
+}
+
+// Logs are filed by when they were written, which can be a little after they were logged (eg. batches)
+const writeDelayMs = 60 * 1000;
+
+// The time a dated path covers, eg. [2024, 6, 20] from 2024/06/20.json.log is the whole of the 20th of June.
+// Paths are made with local time, the same as generatePaths
+function pathPeriod(parts: number[]): { start: number; end: number } {
+    const fields = [parts[0], (parts[1] ?? 1) - 1, parts[2] ?? 1, parts[3] ?? 0, parts[4] ?? 0, parts[5] ?? 0];
+    const start = new Date(fields[0], fields[1], fields[2], fields[3], fields[4], fields[5]).getTime();
+    fields[parts.length - 1]++;
+    const end = new Date(fields[0], fields[1], fields[2], fields[3], fields[4], fields[5]).getTime();
+    return { start, end };
+}
+
+// Whether a dated path could hold logs from the filter's time range, undated paths always could
+function mightMatch(parts: number[] | undefined, filter: Types.LogFilter): boolean {
+    if (parts == undefined || parts.length == 0 || parts.length > 6) return true;
+    const { start, end } = pathPeriod(parts);
+    if (filter.since != undefined && end <= filter.since.getTime()) return false;
+    if (filter.until != undefined && start - writeDelayMs > filter.until.getTime()) return false;
+    return true;
+}
+
+// Adds a path part to the date so far, eg. "2024" then "06". Anything that isn't a number means it's undated
+function datePart(parts: number[] | undefined, name: string): number[] | undefined {
+    return parts != undefined && /^\d+$/.test(name) ? [...parts, Number(name)] : undefined;
+}
+
+/**
+ * Finds every *.json.log (and compressed *.json.log.gz) file under a path, oldest first.
+ * The path can also be a single file.
+ * @param {Types.LogFilter} filter - *optional* Leaves out directories and files dated outside since / until
+ */
+export async function findLogFiles(
+    path: string,
+    filter: Types.LogFilter = {},
+    parts: number[] | undefined = [],
+): Promise<string[]> {
+    const stats = await fs.promises.stat(path).catch(() => undefined);
+    if (stats == undefined) return [];
+    if (!stats.isDirectory()) return [path];
+
+    const files: string[] = [];
+    for (const entry of await fs.promises.readdir(path, { withFileTypes: true })) {
+        const file = nodePath.join(path, entry.name);
+        if (entry.isDirectory()) {
+            const dirParts = datePart(parts, entry.name);
+            if (mightMatch(dirParts, filter)) files.push(...(await findLogFiles(file, filter, dirParts)));
+            continue;
+        }
+
+        const match = jsonLogFile.exec(entry.name);
+        if (match != null && mightMatch(datePart(parts, match[1]), filter)) files.push(file);
+    }
+
+    return files.sort((a, b) => (sortKey(a) < sortKey(b) ? -1 : sortKey(a) > sortKey(b) ? 1 : 0));
+}
+
+// Streams a compressed file through gunzip, piped by hand as bun's stream types don't allow pipe
+function gunzipFile(file: string) {
+    const source = fs.createReadStream(file);
+    const gunzip = zlib.createGunzip();
+    source.on("error", (error) => gunzip.destroy(error));
+    source.on("data", (chunk) => {
+        if (!gunzip.write(chunk)) {
+            source.pause();
+            gunzip.once("drain", () => source.resume());
+        }
+    });
+    source.on("end", () => gunzip.end());
+    gunzip.on("close", () => source.destroy());
+    return gunzip;
+}
+
+/**
+ * Reads a log file a line at a time, streamed so large and compressed files are never held in memory
+ */
+export async function* readLogLines(file: string): AsyncGenerator<string, void, undefined> {
+    const input = file.endsWith(".gz") ? gunzipFile(file) : fs.createReadStream(file);
+    yield* readline.createInterface({ input: input, crlfDelay: Infinity });
+}
+
+/**
+ * Watches a path for new lines in its *.json.log files, like tail -f.
+ * New files, eg. from the next day's directory, are picked up too, and files compressed whilst being followed are
+ * finished from their archive. Returns a function to stop watching.
+ * @param {(line: string) => void} onLine - Called with each complete line
+ * @param {boolean} fromStart - *optional* Also read what is already in the uncompressed files
+ * @param {number} intervalMs - *optional* How often to check for changes
+ */
+export async function followLogFiles(
+    path: string,
+    onLine: (line: string) => void,
+    fromStart: boolean = false,
+    intervalMs: number = 500,
+): Promise<() => void> {
+    // Bytes already read from each file, and any line that hasn't been finished yet
+    const offsets: Map<string, number> = new Map();
+    const partial: Map<string, Buffer> = new Map();
+
+    if (!fromStart)
+        for (const file of await findLogFiles(path)) {
+            if (!file.endsWith(".gz")) offsets.set(file, fs.statSync(file).size);
+        }
+
+    // Splits complete lines off what has been read, keeping the unfinished end for next time
+    const takeLines = (file: string, chunk: Buffer) => {
+        let pending = Buffer.concat([partial.get(file) ?? Buffer.alloc(0), chunk]);
+        let newline = pending.indexOf(10);
+        while (newline != -1) {
+            onLine(pending.subarray(0, newline).toString("utf8"));
+            pending = pending.subarray(newline + 1);
+            newline = pending.indexOf(10);
+        }
+        partial.set(file, pending);
+    };
+
+    // Read a chunk at a time, as following from the start can mean reading whole day files
+    const readNew = (file: string) => {
+        const size = fs.statSync(file).size;
+        let offset = offsets.get(file) ?? 0;
+        if (size <= offset) return;
+
+        const fd = fs.openSync(file, "r");
+        const buffer = Buffer.alloc(Math.min(size - offset, followChunkSize));
+        try {
+            while (offset < size) {
+                const read = fs.readSync(fd, buffer, 0, Math.min(buffer.length, size - offset), offset);
+                if (read == 0) break;
+                offset += read;
+                offsets.set(file, offset);
+                takeLines(file, buffer.subarray(0, read));
+            }
+        } finally {
+            fs.closeSync(fd);
+        }
+    };
+
+    // A finished file is compressed straight away, so anything added since we last looked is read from its archive
+    const readArchived = async (file: string, offset: number) => {
+        let skip = offset;
+        for await (const chunk of gunzipFile(file + ".gz")) {
+            const data = chunk as Buffer;
+            if (skip < data.length) takeLines(file, data.subarray(skip));
+            skip = Math.max(skip - data.length, 0);
+        }
+    };
+
+    const check = async () => {
+        const files = await findLogFiles(path);
+        // Files that have gone are older than the ones still being written, so they're finished first
+        for (const [file, offset] of offsets) {
+            if (files.includes(file)) continue;
+            offsets.delete(file);
+            if (files.includes(file + ".gz")) await readArchived(file, offset).catch(() => {});
+            partial.delete(file);
+        }
+
+        for (const file of files) {
+            if (file.endsWith(".gz")) continue;
+            try {
+                readNew(file);
+            } catch (error) {
+                // Files can be compressed or deleted whilst we are reading them
+            }
+        }
+    };
+
+    await check();
+
+    let checking = false;
+    const interval = setInterval(() => {
+        if (checking) return;
+        checking = true;
+        check().finally(() => {
+            checking = false;
+        });
+    }, intervalMs);
+
+    return () => clearInterval(interval);
+}
@@ -0,0 +1,199 @@
+import * as Types from "./types";
+import { getLevel, levelSeverity } from "./levels";
+import { contextText, fillTemplateString } from "./format";
+
+// Adaptive cards only support a few named colours, so pick one by severity
+function adaptiveColour(logLevel: Types.LogLevel): string {
+    if (logLevel == "SUCCESS") return "good";
+    const severity = levelSeverity(logLevel);
+    return severity >= 40 ? "attention" : severity >= 30 ? "warning" : severity >= 20 ? "accent" : "default";
+}
+
+const tooLong = "The data provided is too long for a webhook. Check file based or stdout based logs.";
+
+function limitData(logData: string, maxLength: number): string {
+    return logData.length > maxLength ? tooLong : logData;
+}
+
+// Cuts text down to maxLength characters, marking where it was cut
+function truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? text.slice(0, maxLength - 1) + "…" : text;
+}
+
+// Slack reads <...> as links and mentions, so these have to be escaped in any text it formats
+function slackEscape(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function title(record: Types.LogRecord): string {
+    return `<${record.mainProcess}.${record.subProcess}> [${record.logLevel}] ${record.logMessage}`;
+}
+
+// The date, followed by any context so logs from one request can be found together
+function footer(record: Types.LogRecord): string {
+    const context = contextText(record.context);
+    return context != "" ? `${record.formattedDate} | ${context}` : record.formattedDate;
+}
+
+/**
+ * Replaces "{placeholder}" strings in a template with values from the log.
+ * A string that is just "{data}" or "{context}" becomes the data or context itself, rather than text
+ */
+export function fillTemplate(template: any, record: Types.LogRecord): any {
+    if (template == "{data}") return record.data;
+    if (template == "{context}") return record.context;
+    if (typeof template == "string") return fillTemplateString(template, record);
+
+    if (Array.isArray(template)) return template.map((item) => fillTemplate(item, record));
+
+    if (template != null && typeof template == "object") {
+        const filled: { [key: string]: any } = {};
+        for (const key in template) filled[key] = fillTemplate(template[key], record);
+        return filled;
+    }
+
+    return template;
+}
+
+// Discord rejects embeds with a title over 256 characters, or a request whose embeds add up to over 6000.
+// The footer is kept short enough that any one embed fits
+export const discordFormatter: Types.WebhookFormatter = {
+    batchSize: 10,
+    maxBatchLength: 6000,
+    formItem: (record, logData): Types.WebhookBufferItem => ({
+        title: truncate(title(record), 256),
+        description: logData != "" ? `\`\`\`json\n${limitData(logData, 4000)}\n\`\`\`` : "",
+        color: parseInt(getLevel(record.logLevel).colour.slice(1), 16),
+        footer: { text: truncate(footer(record), 1024) },
+    }),
+    itemLength: (item: Types.WebhookBufferItem) =>
+        item.title.length + item.description.length + item.footer.text.length,
+    formBody: (items, username, avatarUrl) => ({
+        username: username,
+        avatar_url: avatarUrl,
+        content: null,
+        embeds: items,
+        attachments: [],
+    }),
+};
+
+export const slackFormatter: Types.WebhookFormatter = {
+    batchSize: 20,
+    formItem: (record, logData) => {
+        const blocks: any[] = [
+            { type: "section", text: { type: "mrkdwn", text: `*${slackEscape(title(record))}*` } },
+            { type: "context", elements: [{ type: "plain_text", text: footer(record) }] },
+        ];
+        if (logData != "")
+            blocks.splice(1, 0, {
+                type: "section",
+                text: { type: "mrkdwn", text: `\`\`\`${limitData(slackEscape(logData), 2900)}\`\`\`` },
+            });
+        return { color: getLevel(record.logLevel).colour, blocks: blocks };
+    },
+    formBody: (items, username, avatarUrl) => ({
+        username: username,
+        icon_url: avatarUrl,
+        text: `${items.length} new log${items.length == 1 ? "" : "s"} from ${slackEscape(username)}`,
+        attachments: items,
+    }),
+};
+
+export const teamsFormatter: Types.WebhookFormatter = {
+    batchSize: 10,
+    formItem: (record, logData) => ({
+        activityTitle: title(record),
+        activitySubtitle: footer(record),
+        text: logData != "" ? `<pre>${limitData(logData, 4000)}</pre>` : "",
+        level: record.logLevel,
+    }),
+    formBody: (items, username) => {
+        // A card only has one colour, so use the most severe one in the batch
+        const worst: Types.LogLevel = items
+            .map((item): Types.LogLevel => item.level)
+            .reduce((a, b) => (levelSeverity(b) > levelSeverity(a) ? b : a));
+        return {
+            "@type": "MessageCard",
+            "@context": "https://schema.org/extensions",
+            summary: `Logs from ${username}`,
+            themeColor: getLevel(worst).colour.slice(1),
+            title: username,
+            sections: items.map(({ level, ...section }) => section),
+        };
+    },
+};
+
+export const teamsAdaptiveFormatter: Types.WebhookFormatter = {
+    batchSize: 10,
+    formItem: (record, logData) => {
+        const items: any[] = [
+            {
+                type: "TextBlock",
+                text: title(record),
+                weight: "bolder",
+                wrap: true,
+                color: adaptiveColour(record.logLevel),
+            },
+            { type: "TextBlock", text: footer(record), isSubtle: true, spacing: "none", wrap: true },
+        ];
+        if (logData != "")
+            items.push({ type: "TextBlock", text: limitData(logData, 4000), fontType: "monospace", wrap: true });
+        return { type: "Container", separator: true, items: items };
+    },
+    formBody: (items) => ({
+        type: "message",
+        attachments: [
+            {
+                contentType: "application/vnd.microsoft.card.adaptive",
+                content: {
+                    $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+                    type: "AdaptiveCard",
+                    version: "1.4",
+                    body: items,
+                },
+            },
+        ],
+    }),
+};
+
+// The LogJSON shape, used when a json webhook has no template
+const defaultTemplate = {
+    date: "{date}",
+    formattedDate: "{formattedDate}",
+    mainProcess: "{main}",
+    subProcess: "{sub}",
+    logLevel: "{level}",
+    logMessage: "{message}",
+    logData: "{data}",
+};
+
+/**
+ * Generic JSON webhook, one request per log with the body built from a template
+ */
+export function jsonFormatter(template: any): Types.WebhookFormatter {
+    return {
+        batchSize: 1,
+        formItem: (record) => fillTemplate(template, record),
+        formBody: (items) => items[0],
+    };
+}
+
+/**
+ * Gets the formatter for a webhook form, or undefined if the form is unknown
+ */
+export function webhookFormatter(settings: Types.LogWebhookSettings): Types.WebhookFormatter | undefined {
+    switch (settings.form) {
+        case "discord":
+            return discordFormatter;
+        case "slack":
+            return slackFormatter;
+        case "teams":
+            return teamsFormatter;
+        case "teams-adaptive":
+            return teamsAdaptiveFormatter;
+        case "json":
+            return jsonFormatter(settings.template ?? defaultTemplate);
+        default:
+            return undefined;
+    }
+}
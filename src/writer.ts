@@ -0,0 +1,135 @@
+import * as fs from "node:fs";
+import * as Types from "./types";
+
+// Small promise wrappers around the fd based fs functions, these behave the same on node and bun
+const open = (file: string) =>
+    new Promise<number>((resolve, reject) => fs.open(file, "a", (error, fd) => (error ? reject(error) : resolve(fd))));
+const write = (fd: number, data: string) =>
+    new Promise<void>((resolve, reject) => fs.appendFile(fd, data, (error) => (error ? reject(error) : resolve())));
+const fsync = (fd: number) =>
+    new Promise<void>((resolve, reject) => fs.fsync(fd, (error) => (error ? reject(error) : resolve())));
+const close = (fd: number) =>
+    new Promise<void>((resolve, reject) => fs.close(fd, (error) => (error ? reject(error) : resolve())));
+
+const countLines = (data: string) => data.split("\n").length - (data.endsWith("\n") ? 1 : 0);
+
+/**
+ * Appends to log files one write at a time, so lines are never interleaved or reordered.
+ * Files are kept open between writes until closeFile is called.
+ */
+export default class FileWriter {
+    public dropped: number = 0;
+
+    private settings: Pick<Types.LogStorageSettings, "maxQueueSize" | "overflow" | "fsync">;
+    private report: (logLevel: Types.LogLevel, message: any, data?: any) => void;
+
+    private queue: { file: string; data: string }[] = [];
+    private handles: Map<string, number> = new Map();
+    private writing?: Promise<void>;
+    private waitingForSpace: (() => void)[] = [];
+    // Files whose last write failed, so a failing file is only reported once until it works again
+    private failing: Set<string> = new Set();
+
+    constructor(
+        settings: Pick<Types.LogStorageSettings, "maxQueueSize" | "overflow" | "fsync">,
+        report: (logLevel: Types.LogLevel, message: any, data?: any) => void,
+    ) {
+        this.settings = settings;
+        this.report = report;
+    }
+
+    /**
+     * Queues data to be appended to a file.
+     * With the "block" overflow policy the promise only resolves once there is room in the queue.
+     */
+    async write(file: string, data: string) {
+        if (this.queue.length >= this.settings.maxQueueSize || this.waitingForSpace.length > 0) {
+            switch (this.settings.overflow) {
+                case "drop newest":
+                    this.dropped += countLines(data);
+                    return;
+                case "drop oldest":
+                    // A queued write can hold a whole batch, every line in it is dropped
+                    this.dropped += countLines(this.queue.shift()!.data);
+                    break;
+                case "block":
+                    await new Promise<void>((resolve) => this.waitingForSpace.push(resolve));
+                    break;
+            }
+        }
+
+        this.queue.push({ file, data });
+        this.startWriting();
+    }
+
+    /**
+     * Resolves once everything queued has been written, and synced to disk if fsync is enabled
+     */
+    async flush() {
+        while (this.writing != undefined) await this.writing;
+
+        if (this.settings.fsync) {
+            for (const fd of this.handles.values()) await fsync(fd);
+        }
+    }
+
+    /**
+     * Writes anything queued for a file then closes it
+     */
+    async closeFile(file: string) {
+        await this.flush();
+
+        const fd = this.handles.get(file);
+        if (fd == undefined || this.queue.some((item) => item.file == file)) return;
+
+        this.handles.delete(file);
+        await close(fd);
+    }
+
+    /**
+     * Writes everything queued then closes every file
+     */
+    async close() {
+        await this.flush();
+
+        for (const [file, fd] of this.handles) {
+            this.handles.delete(file);
+            await close(fd);
+        }
+    }
+
+    private startWriting() {
+        if (this.writing != undefined) return;
+
+        this.writing = this.writeQueue().finally(() => {
+            this.writing = undefined;
+        });
+    }
+
+    private async writeQueue() {
+        while (this.queue.length > 0) {
+            // Join up writes to the same file so they go out together
+            const file = this.queue[0].file;
+            let data = "";
+            while (this.queue.length > 0 && this.queue[0].file == file) data += this.queue.shift()!.data;
+
+            // Let blocked writes into the queue in the order they arrived
+            while (this.waitingForSpace.length > 0 && this.queue.length < this.settings.maxQueueSize)
+                this.waitingForSpace.shift()!();
+
+            try {
+                let fd = this.handles.get(file);
+                if (fd == undefined) {
+                    fd = await open(file);
+                    this.handles.set(file, fd);
+                }
+                await write(fd, data);
+                this.failing.delete(file);
+            } catch (error) {
+                if (this.failing.has(file)) continue;
+                this.failing.add(file);
+                this.report("ERROR", "There was an issue writing to a log file", { file: file, error: error });
+            }
+        }
+    }
+}
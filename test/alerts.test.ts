@@ -0,0 +1,142 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import Logger, { AlertTransport, type AlertSettings } from "../src/index.ts";
+
+const requests: any[] = [];
+
+// Local stand-in for the alert webhooks. Bodies are LogJSON shaped
+const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+        requests.push({ path: new URL(req.url).pathname, ...(await req.json()) });
+        return new Response(null, { status: 204 });
+    },
+});
+
+afterAll(() => server.stop(true));
+
+// testMode turns alerts off, so the other outputs are turned off by hand
+const useLogger = (alerts: Partial<AlertSettings>) =>
+    new Logger("Bun-testing", "alert-tests", {
+        show: { stdoutEnable: false },
+        logStorage: { json: false, txt: false },
+        alerts: {
+            targets: {
+                oncall: { url: new URL("/oncall", server.url), form: "json" },
+                team: { url: new URL("/team", server.url), form: "json" },
+            },
+            ...alerts,
+        },
+    });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("Alerts", () => {
+    test("Alerts once a threshold is passed, then resolves", async () => {
+        requests.length = 0;
+        const logger = useLogger({
+            rules: [
+                {
+                    name: "Payments failing",
+                    target: "oncall",
+                    when: { level: "ERROR", subProcess: "/payments" },
+                    threshold: 5,
+                    windowMs: 100,
+                },
+            ],
+        });
+        const payments = logger.child("/payments");
+
+        for (let i = 0; i < 5; i++) await payments.error("Card declined", { attempt: i });
+        await payments.warn("Not counted");
+        await logger.error("Not counted either");
+        await logger.flush();
+        expect(requests).toHaveLength(0);
+
+        await payments.error("Card declined", { attempt: 5 });
+        await payments.error("Card declined", { attempt: 6 }); // Within the cooldown
+        await logger.flush();
+        expect(requests).toHaveLength(1);
+        expect(requests[0]).toMatchObject({
+            path: "/oncall",
+            logLevel: "ERROR",
+            subProcess: "/payments",
+            logMessage: "Alert: Payments failing",
+            logData: { rule: "Payments failing", count: 6, sinceLastAlert: 0, lastLogData: { attempt: 5 } },
+        });
+
+        await sleep(150);
+        await logger.flush();
+        expect(requests).toHaveLength(2);
+        expect(requests[1]).toMatchObject({
+            path: "/oncall",
+            logLevel: "SUCCESS",
+            logMessage: "Resolved: Payments failing",
+            logData: { rule: "Payments failing", logs: 7 },
+        });
+        await logger.close();
+    });
+    test("Cooldowns, message rules and targets", async () => {
+        requests.length = 0;
+        const logger = useLogger({
+            rules: [
+                { name: "Fatal", target: "oncall", when: { level: "FATAL" }, resolve: false },
+                { name: "Disk full", target: "team", when: { message: /disk full/ }, cooldownMs: 0, windowMs: 10 },
+            ],
+        });
+
+        await logger.fatal("Crashed");
+        await logger.fatal("Crashed again");
+        await logger.warn("The disk full of logs");
+        await sleep(20);
+        await logger.warn("The disk full of logs");
+        await logger.flush();
+
+        // Each target sends on its own, so only the order within a target is known
+        const sentTo = (path: string) =>
+            requests.filter((request) => request.path == path).map((request) => request.logMessage);
+        expect(sentTo("/oncall")).toEqual(["Alert: Fatal"]);
+        expect(sentTo("/team")).toEqual(["Alert: Disk full", "Resolved: Disk full", "Alert: Disk full"]);
+        await logger.close();
+    });
+    test("Sends to named webhook destinations", async () => {
+        requests.length = 0;
+        const logger = new Logger("Bun-testing", "alert-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { json: false, txt: false },
+            logWebook: [{ enable: true, name: "team", url: new URL("/team", server.url), form: "json", levels: [] }],
+            alerts: { rules: [{ name: "Fatal", target: "team", when: { level: "FATAL" } }] },
+        });
+
+        await logger.fatal("Crashed");
+        await logger.flush();
+
+        expect(requests.map((request) => `${request.path} ${request.logMessage}`)).toEqual(["/team Alert: Fatal"]);
+        await logger.close();
+    });
+    test("Follows named destinations changed by configure", async () => {
+        requests.length = 0;
+        const team = (url: URL) => [{ enable: true, name: "team", url, form: "json" as const, levels: [] }];
+        const logger = new Logger("Bun-testing", "alert-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { json: false, txt: false },
+            logWebook: team(new URL("/team", server.url)),
+            alerts: { rules: [{ name: "Fatal", target: "team", when: { level: "FATAL" } }] },
+        });
+
+        await logger.configure({ logWebook: team(new URL("/oncall", server.url)) });
+        await logger.fatal("Crashed");
+        await logger.flush();
+
+        expect(requests.map((request) => `${request.path} ${request.logMessage}`)).toEqual(["/oncall Alert: Fatal"]);
+        await logger.close();
+    });
+    test("Reports rules with unknown targets", () => {
+        const reported: string[] = [];
+        new AlertTransport(
+            { targets: {}, rules: [{ name: "Nowhere", target: "missing", when: {} }] },
+            { report: (logLevel, message) => reported.push(`[${logLevel}] ${message}`) },
+        );
+
+        expect(reported).toEqual(["[ERROR] Alert rule has an unknown target"]);
+    });
+});
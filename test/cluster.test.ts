@@ -0,0 +1,86 @@
+import { describe, test, expect } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fork } from "node:child_process";
+import { MessageChannel, Worker } from "node:worker_threads";
+import Logger, { type Transport } from "../src/index.ts";
+import { recorder } from "./helpers.ts";
+
+const primary = (transport: Transport) =>
+    new Logger("Bun-testing", "primary", {
+        show: { stdoutEnable: false },
+        logStorage: { json: false, txt: false },
+        transports: [transport],
+    });
+
+// Writes a script that logs from a worker logger, sending to the primary however the settings say
+const workerScript = (dir: string, name: string, body: string) => {
+    const script = path.join(dir, `${name}.ts`);
+    fs.writeFileSync(
+        script,
+        `import Logger from ${JSON.stringify(path.resolve("src/index.ts"))};
+        const logger = new Logger("Bun-testing", ${JSON.stringify(name)}, { cluster: { role: "worker" } });
+        ${body}`,
+    );
+    return script;
+};
+
+describe("Cluster", () => {
+    test("Worker loggers send their logs to the primary instead of writing them", async () => {
+        const { records, transport } = recorder();
+        const logger = primary(transport);
+        const { port1, port2 } = new MessageChannel();
+        logger.receiveFrom(port1);
+
+        const worker = new Logger("Bun-testing", "worker", {
+            logStorage: { path: "./should-not-exist" },
+            cluster: { role: "worker", port: port2 },
+        });
+        await worker.child("worker-child").warn("From a worker", { id: 1 });
+        port2.postMessage({ somethingElse: true });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        port1.close();
+
+        const forwarded = records.filter((record) => record.subProcess == "worker-child");
+        expect(forwarded).toHaveLength(1);
+        expect(forwarded[0].data).toEqual({ id: 1 });
+        expect(forwarded[0].date).toBeInstanceOf(Date);
+        expect(forwarded[0].processID).toBe(String(process.pid));
+        expect(fs.existsSync("./should-not-exist")).toBe(false);
+        await logger.close();
+    });
+    test("Worker threads log through their parentPort, tagged with their thread id", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "louis-log-"));
+        const { records, transport } = recorder();
+        const logger = primary(transport);
+
+        const script = workerScript(dir, "thread", `await logger.info("From a thread");`);
+        const worker = new Worker(script);
+        const threadId = worker.threadId; // -1 once it has exited
+        logger.receiveFrom(worker);
+        await new Promise((resolve) => worker.once("exit", resolve));
+
+        const record = records.find((record) => record.logMessage == "From a thread")!;
+        expect(record.processID).toBe(`${process.pid}:${threadId}`);
+        await logger.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+    test("Child processes log through IPC", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "louis-log-"));
+        const { records, transport } = recorder();
+        const logger = primary(transport);
+
+        const script = workerScript(dir, "process", `await logger.error("From a process"); await logger.close();`);
+        const child = fork(script, [], { execPath: process.execPath, stdio: "ignore" });
+        logger.receiveFrom(child);
+        await new Promise((resolve) => child.once("exit", resolve));
+
+        const record = records.find((record) => record.logMessage == "From a process")!;
+        expect(record.logLevel).toBe("ERROR");
+        expect(record.date).toBeInstanceOf(Date);
+        expect(record.processID).toBe(String(child.pid));
+        await logger.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+});
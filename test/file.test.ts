@@ -0,0 +1,264 @@
+import { describe, test, expect, afterAll, spyOn } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as zlib from "node:zlib";
+import { FileTransport } from "../src/index.ts";
+import FileWriter from "../src/writer.ts";
+import { record } from "./helpers.ts";
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "louis-log-"));
+
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+describe("Rotation", () => {
+    test("Moves on to a new file once maxFileSize is reached", async () => {
+        const dir = path.join(tmpDir, "rotation");
+        const transport = new FileTransport({
+            path: dir,
+            splitBy: "don't split",
+            stratagy: "single",
+            maxFileSize: 400,
+        });
+        for (let i = 0; i < 6; i++) transport.write(record("INFO", `Log number ${i}`));
+        await transport.flush();
+
+        const files = fs.readdirSync(dir).sort();
+        expect(files).toContain("logs.json.log");
+        expect(files).toContain("logs.1.json.log");
+        for (const file of files) expect(fs.statSync(path.join(dir, file)).size).toBeLessThanOrEqual(400);
+    });
+    test("Compresses rotated files", async () => {
+        const dir = path.join(tmpDir, "compress");
+        const transport = new FileTransport({
+            path: dir,
+            splitBy: "don't split",
+            stratagy: "single",
+            txt: false,
+            maxFileSize: 400,
+            compress: true,
+        });
+        for (let i = 0; i < 6; i++) transport.write(record("INFO", `Log number ${i}`));
+        await transport.flush();
+        await Bun.sleep(100);
+
+        const files = fs.readdirSync(dir).sort();
+        expect(files).toContain("logs.json.log.gz");
+        expect(files).not.toContain("logs.json.log");
+        const compressed = zlib.gunzipSync(fs.readFileSync(path.join(dir, "logs.json.log.gz"))).toString();
+        expect(compressed).toContain("Log number 0");
+    });
+
+    test("Never replaces an archive when a late log reopens its day", async () => {
+        const dir = path.join(tmpDir, "late");
+        const transport = new FileTransport({
+            path: dir,
+            splitBy: "day",
+            stratagy: "single",
+            txt: false,
+            compress: true,
+        });
+        const day = (date: string, message: string) => record("INFO", message, { date: new Date(date) });
+        await transport.write(day("2024-06-19T12:00:00", "First on the 19th"));
+        await transport.write(day("2024-06-20T12:00:00", "First on the 20th"));
+        await Bun.sleep(100);
+        await transport.write(day("2024-06-19T12:00:00", "Late for the 19th"));
+        await transport.write(day("2024-06-20T12:00:00", "Second on the 20th"));
+        await transport.close();
+        await Bun.sleep(100);
+
+        const days = path.join(dir, "2024", "06");
+        const unzip = (file: string) => zlib.gunzipSync(fs.readFileSync(path.join(days, file))).toString();
+        expect(fs.readdirSync(days).sort()).toEqual([
+            "19.1.json.log.gz",
+            "19.json.log.gz",
+            "20.1.json.log",
+            "20.json.log.gz",
+        ]);
+        expect(unzip("19.json.log.gz")).toContain("First on the 19th");
+        expect(unzip("19.1.json.log.gz")).toContain("Late for the 19th");
+        expect(unzip("20.json.log.gz")).toContain("First on the 20th");
+        expect(fs.readFileSync(path.join(days, "20.1.json.log"), "utf8")).toContain("Second on the 20th");
+    });
+});
+
+describe("Retention", () => {
+    test("Keeps at most maxFiles", async () => {
+        const dir = path.join(tmpDir, "retention");
+        const transport = new FileTransport({
+            path: dir,
+            splitBy: "don't split",
+            stratagy: "single",
+            txt: false,
+            maxFileSize: 200,
+            maxFiles: 2,
+        });
+        for (let i = 0; i < 10; i++) {
+            transport.write(record("INFO", `Log number ${i}`));
+            await transport.flush();
+        }
+        await Bun.sleep(100);
+
+        expect(fs.readdirSync(dir)).toHaveLength(2);
+    });
+    test("Leaves files it didn't write alone", async () => {
+        const dir = path.join(tmpDir, "unrelated");
+        fs.mkdirSync(path.join(dir, "other"), { recursive: true });
+        fs.writeFileSync(path.join(dir, "other", "app-unrelated.log"), "");
+        fs.writeFileSync(path.join(dir, "app.log"), "");
+        const old = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+        fs.utimesSync(path.join(dir, "other", "app-unrelated.log"), old, old);
+        fs.utimesSync(path.join(dir, "app.log"), old, old);
+
+        const transport = new FileTransport({ path: dir, splitBy: "don't split", stratagy: "single", maxAgeDays: 1 });
+        await transport.write(record("INFO", "Log"));
+        await transport.close();
+        await Bun.sleep(50);
+
+        expect(fs.existsSync(path.join(dir, "other", "app-unrelated.log"))).toBe(true);
+        expect(fs.existsSync(path.join(dir, "app.log"))).toBe(true);
+    });
+});
+
+describe("Batching", () => {
+    test("Writes errors straight away", async () => {
+        const dir = path.join(tmpDir, "urgent");
+        const transport = new FileTransport({ path: dir, splitBy: "don't split", txt: false, flushIntervalMs: 0 });
+        await transport.write(record("INFO", "Quiet"));
+        await transport.write(record("ERROR", "Broken"));
+        await Bun.sleep(50);
+
+        expect(fs.readFileSync(path.join(dir, "logs.json.log"), "utf8").trim().split("\n")).toHaveLength(2);
+    });
+    test("Writes partial batches on an interval", async () => {
+        const dir = path.join(tmpDir, "interval");
+        const transport = new FileTransport({ path: dir, splitBy: "don't split", txt: false, flushIntervalMs: 20 });
+        await transport.write(record("INFO", "Quiet"));
+
+        expect(fs.existsSync(path.join(dir, "logs.json.log"))).toBe(false);
+        await Bun.sleep(100);
+        expect(fs.readFileSync(path.join(dir, "logs.json.log"), "utf8")).toContain("Quiet");
+        await transport.close();
+    });
+    test("Reports interval writes that fail", async () => {
+        const blocker = path.join(tmpDir, "blocker");
+        fs.writeFileSync(blocker, "");
+        const reported: any[] = [];
+        const transport = new FileTransport(
+            { path: path.join(blocker, "logs"), splitBy: "don't split", txt: false, flushIntervalMs: 20 },
+            { report: (logLevel, message) => reported.push({ logLevel, message }) },
+        );
+        await transport.write(record("INFO", "Quiet"));
+        await Bun.sleep(100);
+
+        expect(reported).toEqual([{ logLevel: "ERROR", message: "There was an issue writing buffered logs" }]);
+        await expect(transport.write(record("ERROR", "Broken"))).rejects.toThrow("Couldn't create the log directory");
+        await transport.close();
+    });
+});
+
+describe("Failures", () => {
+    test("Write failures don't go back through the logger", async () => {
+        const dir = path.join(tmpDir, "feedback");
+        fs.mkdirSync(path.join(dir, "logs.json.log"), { recursive: true });
+        const errors = spyOn(console, "error").mockImplementation(() => {});
+        // Like the logger's report, issues are written back to the same transport
+        const transport: FileTransport = new FileTransport(
+            { path: dir, splitBy: "don't split", stratagy: "single", txt: false },
+            { report: (logLevel, message) => transport.write(record(logLevel, message)) },
+        );
+        await transport.write(record("INFO", "Hello"));
+        await transport.flush();
+        await Bun.sleep(50);
+        await transport.close();
+        const calls = errors.mock.calls.map(([message]) => message);
+        errors.mockRestore();
+
+        expect(calls).toEqual(["[ERROR]"]);
+    });
+});
+
+describe("Writer", () => {
+    test("Keeps lines in order", async () => {
+        const file = path.join(tmpDir, "order.log");
+        const writer = new FileWriter({ maxQueueSize: 10, overflow: "block", fsync: true }, () => {});
+        const lines = Array.from({ length: 200 }, (_, i) => `line ${i}\n`);
+        await Promise.all(lines.map((line) => writer.write(file, line)));
+        await writer.close();
+
+        expect(fs.readFileSync(file, "utf8")).toBe(lines.join(""));
+    });
+    test("Drops the newest writes when full", async () => {
+        const file = path.join(tmpDir, "drop.log");
+        const writer = new FileWriter({ maxQueueSize: 2, overflow: "drop newest", fsync: false }, () => {});
+        for (let i = 0; i < 5; i++) writer.write(file, `line ${i}\n`);
+        await writer.close();
+
+        expect(writer.dropped).toBe(2);
+        expect(fs.readFileSync(file, "utf8")).toBe("line 0\nline 1\nline 2\n");
+    });
+    test("Drops the oldest writes when full, counting every line", async () => {
+        const file = path.join(tmpDir, "drop-oldest.log");
+        const writer = new FileWriter({ maxQueueSize: 2, overflow: "drop oldest", fsync: false }, () => {});
+        writer.write(file, "line 0\n");
+        writer.write(file, "line 1\nline 2\n");
+        writer.write(file, "line 3\nline 4\n");
+        writer.write(file, "line 5\n");
+        await writer.close();
+
+        expect(writer.dropped).toBe(2);
+        expect(fs.readFileSync(file, "utf8")).toBe("line 0\nline 3\nline 4\nline 5\n");
+    });
+    test("Holds writes back until there is room when blocking", async () => {
+        const file = path.join(tmpDir, "block.log");
+        const writer = new FileWriter({ maxQueueSize: 1, overflow: "block", fsync: false }, () => {});
+        writer.write(file, "line 0\n");
+        writer.write(file, "line 1\n");
+        let written = false;
+        const blocked = writer.write(file, "line 2\n").then(() => (written = true));
+
+        expect(written).toBe(false);
+        await blocked;
+        await writer.close();
+
+        expect(writer.dropped).toBe(0);
+        expect(fs.readFileSync(file, "utf8")).toBe("line 0\nline 1\nline 2\n");
+    });
+    test("Syncs open files to disk on flush with fsync", async () => {
+        const synced = spyOn(fs, "fsync");
+        const file = path.join(tmpDir, "fsync.log");
+        const writer = new FileWriter({ maxQueueSize: 10, overflow: "block", fsync: true }, () => {});
+        await writer.write(file, "line 0\n");
+        await writer.flush();
+        const calls = synced.mock.calls.length;
+        synced.mockRestore();
+        await writer.close();
+
+        expect(calls).toBe(1);
+
+        const unsynced = spyOn(fs, "fsync");
+        const other = new FileWriter({ maxQueueSize: 10, overflow: "block", fsync: false }, () => {});
+        await other.write(file, "line 1\n");
+        await other.flush();
+        const otherCalls = unsynced.mock.calls.length;
+        unsynced.mockRestore();
+        await other.close();
+
+        expect(otherCalls).toBe(0);
+    });
+    test("Reports a failing file once until it works again", async () => {
+        const file = path.join(tmpDir, "failing.log");
+        fs.mkdirSync(file);
+        const reported: string[] = [];
+        const writer = new FileWriter({ maxQueueSize: 10, overflow: "block", fsync: false }, (logLevel, message) =>
+            reported.push(message),
+        );
+        for (let i = 0; i < 3; i++) {
+            await writer.write(file, `line ${i}\n`);
+            await writer.flush();
+        }
+
+        expect(reported).toEqual(["There was an issue writing to a log file"]);
+        await writer.close();
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, test, expect } from "bun:test";
+import { fillTemplateString, formatLog, otelSeverity } from "../src/format.ts";
+import { defaultSettings } from "../src/settings.ts";
+import { record as logRecord } from "./helpers.ts";
+
+const data = { userId: 42, request: { path: "/users", query: "a b" } };
+
+const record = logRecord("ERROR", "Request failed\nafter retrying", {
+    mainProcess: "Example API",
+    subProcess: "/users",
+    logData: JSON.stringify(data, null, 4),
+    data,
+    context: {
+        requestId: "abc",
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+        sampled: true,
+    },
+    durationMs: 12.5,
+    processID: "4211:2",
+});
+
+const format = (settings: Partial<typeof defaultSettings.show>) =>
+    formatLog(record, { ...defaultSettings.show, ...settings });
+
+describe("Formats", () => {
+    test("Text can be kept on one line", () => {
+        expect(format({ date: false })).toContain("[ERROR] Request failed\nafter retrying\nLog Data:\n{\n");
+        expect(format({ date: false, context: false, singleLine: true })).toBe(
+            '<Example API./users> [ERROR] Request failed\\nafter retrying {"userId":42,"request":{"path":"/users","query":"a b"}}',
+        );
+    });
+    test("logfmt", () => {
+        expect(format({ format: "logfmt" })).toBe(
+            'time=2024-06-20T16:39:05.514Z level=error main="Example API" sub=/users msg="Request failed\\nafter retrying" ' +
+                "requestId=abc traceId=4bf92f3577b34da6a3ce929d0e0e4736 spanId=00f067aa0ba902b7 sampled=true " +
+                'userId=42 request.path=/users request.query="a b" durationMs=12.5 pid=4211:2',
+        );
+    });
+    test("Elastic Common Schema", () => {
+        const ecs = JSON.parse(format({ format: "ecs" }));
+
+        expect(ecs).toEqual({
+            "@timestamp": "2024-06-20T16:39:05.514Z",
+            "log.level": "error",
+            message: "Request failed\nafter retrying",
+            "ecs.version": "8.11.0",
+            "service.name": "Example API",
+            "log.logger": "/users",
+            "process.pid": 4211,
+            "process.thread.id": 2,
+            "trace.id": "4bf92f3577b34da6a3ce929d0e0e4736",
+            "span.id": "00f067aa0ba902b7",
+            labels: { requestId: "abc" },
+            "event.duration": 12500000,
+            data,
+        });
+
+        const error = { name: "TypeError", message: "Oops", stack: "TypeError: Oops\n    at main" };
+        const errorECS = JSON.parse(formatLog({ ...record, data: error }, { ...defaultSettings.show, format: "ecs" }));
+        expect(errorECS["error.type"]).toBe("TypeError");
+        expect(errorECS["error.stack_trace"]).toBe(error.stack);
+        expect(errorECS.data).toBeUndefined();
+    });
+    test("OpenTelemetry", () => {
+        const otel = JSON.parse(format({ format: "otel" }));
+
+        expect(otel).toEqual({
+            timeUnixNano: "1718901545514000000",
+            severityNumber: 17,
+            severityText: "ERROR",
+            body: "Request failed\nafter retrying",
+            attributes: {
+                "logger.name": "/users",
+                requestId: "abc",
+                userId: 42,
+                "request.path": "/users",
+                "request.query": "a b",
+                durationMs: 12.5,
+                "thread.id": 2,
+            },
+            resource: { "service.name": "Example API", "process.pid": 4211 },
+            traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+            spanId: "00f067aa0ba902b7",
+            flags: 1,
+        });
+        expect(["DEBUG", "INFO", "SUCCESS", "WARN", "FATAL"].map(otelSeverity)).toEqual([5, 9, 10, 13, 21]);
+    });
+    test("Templates", () => {
+        expect(format({ format: "template", singleLine: true })).toBe(
+            '2024-06-20T16:39:05.514Z ERROR Example API//users Request failed\\nafter retrying {"userId":42,"request":{"path":"/users","query":"a b"}}',
+        );
+        expect(fillTemplateString("[{level:7}] {formattedDate} {pid} {unknown}", record)).toBe(
+            "[ERROR  ] 2024-06-20 17:39:05:514 GMT+0100 4211:2 {unknown}",
+        );
+    });
+});
@@ -0,0 +1,33 @@
+import type { LogLevel, LogRecord, Transport } from "../src/index.ts";
+
+// A log as transports receive it, fields can be swapped out for what a test needs
+export const record = (
+    logLevel: LogRecord["logLevel"],
+    logMessage: string,
+    fields: Partial<LogRecord> = {},
+): LogRecord => ({
+    date: new Date("2024-06-20T16:39:05.514Z"),
+    formattedDate: "2024-06-20 17:39:05:514 GMT+0100",
+    mainProcess: "Bun-testing",
+    subProcess: "tests",
+    logLevel,
+    logMessage,
+    logData: "",
+    data: null,
+    context: {},
+    ...fields,
+});
+
+// A transport that keeps every record it's given, so tests can check exactly what was sent
+export const recorder = (minLevel?: LogLevel) => {
+    const records: LogRecord[] = [];
+    const transport: Transport = {
+        minLevel: minLevel,
+        write: (record) => {
+            records.push(record);
+        },
+        flush: async () => {},
+        close: async () => {},
+    };
+    return { records, transport };
+};
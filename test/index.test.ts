@@ -1,46 +1,353 @@
-import { describe, test, expect, mock } from "bun:test";
-import Logger from "../src/index.ts";
+import { describe, test, expect } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import Logger, {
+    MemoryTransport,
+    expectLogged,
+    expectNotLogged,
+    parseTraceparent,
+    settingsFromEnv,
+} from "../src/index.ts";
+import { formatLog } from "../src/format.ts";
+import { defaultSettings } from "../src/settings.ts";
+import { logToRecord } from "../src/view.ts";
+import { recorder } from "./helpers.ts";
 
-const useLogger = mock((logMessage: string) => {
-    const originalLog = console.log;
-    let stdout = "";
+describe("Log", () => {
+    test("Plain text", async () => {
+        const logger = new Logger("Bun-testing", "log-tests", { testMode: true });
+        await logger.log("Hello World", "console.log");
+
+        expectLogged(logger, { level: "INFO", message: "Hello World", data: "console.log" });
+    });
+    test("Alphanumeric", async () => {
+        const logger = new Logger("Bun-testing", "log-tests", { testMode: true });
+        await logger.log("Hello World 123");
+
+        expectLogged(logger, { message: "Hello World 123" });
+    });
+    test("Special Characters", async () => {
+        const logger = new Logger("Bun-testing", "log-tests", { testMode: true });
+        await logger.log("Hello, World! 123");
+
+        expectLogged(logger, { message: "Hello, World! 123" });
+    });
+});
+
+describe("Child", () => {
+    test("Uses its own subprocess name", async () => {
+        const logger = new Logger("Bun-testing", "log-tests", { testMode: true });
+        await logger.child("child-tests").log("Hello from the child");
+
+        expectLogged(logger, { level: "INFO", subProcess: "child-tests", message: "Hello from the child" });
+    });
+    test("Inherits and extends context", () => {
+        const logger = new Logger("Bun-testing", "log-tests", { testMode: true });
+        const child = logger.child("child-tests", { requestId: "abc" });
+        const grandchild = child.child("grandchild-tests", { userId: 1 });
+
+        expect(child.context).toEqual({ requestId: "abc" });
+        expect(grandchild.context).toEqual({ requestId: "abc", userId: 1 });
+        expect(grandchild.mainProcess).toBe("Bun-testing");
+    });
+});
 
-    // Override console.log to capture the output
-    console.log = (message) => {
-        stdout += message + "\n";
+describe("Transports", () => {
+    test("Custom transport respects minLevel", () => {
+        const { records, transport } = recorder("WARN");
+        const logger = new Logger("Bun-testing", "transport-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { json: false, txt: false },
+            transports: [transport],
+        });
+
+        logger.info("Not important");
+        logger.warn("Careful");
+        logger.error("Broken", { code: 1 });
+
+        expect(records.map((record) => record.logLevel)).toEqual(["WARN", "ERROR"]);
+        expect(records[1].logMessage).toBe("Broken");
+    });
+    test("Leaves webhook URLs and headers out of the settings it logs", () => {
+        const memory = new MemoryTransport();
+        new Logger("Bun-testing", "transport-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { json: false, txt: false },
+            logWebook: {
+                enable: false,
+                url: new URL("https://discord.com/api/webhooks/1/secret-token"),
+                headers: { Authorization: "Bearer secret" },
+            },
+            transports: [memory],
+        });
+
+        expectLogged(memory, { level: "DEBUG", message: /"username"/ });
+        expectNotLogged(memory, { grep: /secret/ });
+    });
+});
+
+describe("Context", () => {
+    const traceparent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+    test("Follows withContext across awaits and nested scopes", async () => {
+        const { records, transport } = recorder();
+        const logger = new Logger("Bun-testing", "context-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { json: false, txt: false },
+            transports: [transport],
+        });
+        const child = logger.child("child-tests", { route: "users" });
+
+        await logger.withContext({ requestId: "abc", traceparent }, async () => {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            child.info("Inside");
+            await child.withContext({ userId: 42 }, async () => child.info("Nested"));
+        });
+        child.info("Outside");
+
+        expect(records.slice(-3).map((record) => record.context)).toEqual([
+            {
+                route: "users",
+                requestId: "abc",
+                traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+                spanId: "00f067aa0ba902b7",
+                sampled: true,
+            },
+            {
+                route: "users",
+                requestId: "abc",
+                traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+                spanId: "00f067aa0ba902b7",
+                sampled: true,
+                userId: 42,
+            },
+            { route: "users" },
+        ]);
+    });
+    test("Shows context in the txt prefix", async () => {
+        const logger = new Logger("Bun-testing", "context-tests", { testMode: true });
+        await logger.withContext({ requestId: "abc", user: "Louis B" }, () => logger.info("Hello"));
+
+        const [log] = expectLogged(logger, { message: "Hello" });
+        expect(formatLog(logToRecord(log), { ...defaultSettings.show, date: false })).toBe(
+            '<Bun-testing.context-tests> {requestId=abc user="Louis B"} [INFO] Hello',
+        );
+    });
+    test("Parses traceparent headers", () => {
+        expect(parseTraceparent(traceparent)).toEqual({
+            traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+            spanId: "00f067aa0ba902b7",
+            sampled: true,
+        });
+        expect(parseTraceparent("00-00000000000000000000000000000000-00f067aa0ba902b7-01")).toBeUndefined();
+        expect(parseTraceparent("not a header")).toBeUndefined();
+    });
+});
+
+describe("Timers", () => {
+    const recordingLogger = () => {
+        const { records, transport } = recorder();
+        const logger = new Logger("Bun-testing", "timer-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { json: false, txt: false },
+            timers: { slowMs: 20 },
+            transports: [transport],
+        });
+        return { records, logger };
     };
 
-    // Create a new Logger instance and log a message
-    const logger = new Logger("Bun-testing", "log-tests", {});
-    logger.log(logMessage, "console.log");
-    logger.exit();
+    test("time / timeEnd log a durationMs and warn when slow", async () => {
+        const { records, logger } = recordingLogger();
 
-    // Restore original console.log
-    console.log = originalLog;
+        logger.time("fast");
+        logger.timeEnd("fast");
+        logger.child("child-tests").time("slow");
+        await new Promise((resolve) => setTimeout(resolve, 25));
+        logger.timeEnd("slow", "DEBUG");
+        logger.timeEnd("slow");
+
+        const [fast, slow, missing] = records.slice(-3);
+        expect(fast.logLevel).toBe("INFO");
+        expect(fast.logMessage).toStartWith("fast: ");
+        expect(fast.durationMs).toBeLessThan(20);
+        expect(slow.logLevel).toBe("WARN");
+        expect(slow.durationMs).toBeGreaterThanOrEqual(20);
+        expect(missing.logMessage).toBe('Timer "slow" does not exist');
+    });
+    test("startTimer and count", () => {
+        const { records, logger } = recordingLogger();
 
-    console.log(stdout);
+        const done = logger.startTimer();
+        done("Sent email", { userId: 42 }, "SUCCESS");
+        logger.count("retries");
+        logger.count("retries");
+        logger.countReset("retries");
+        logger.count("retries");
 
-    return stdout;
+        const [timer, ...counts] = records.slice(-4);
+        expect(timer.logLevel).toBe("SUCCESS");
+        expect(timer.logMessage).toMatch(/^Sent email: [\d.]+ms$/);
+        expect(timer.data).toEqual({ userId: 42 });
+        expect(typeof timer.durationMs).toBe("number");
+        expect(counts.map((record) => record.logMessage)).toEqual(["retries: 1", "retries: 2", "retries: 1"]);
+    });
 });
 
-describe("Log", () => {
-    useLogger("This log is so that it preloads the mock function so it will run fast!");
-    test("Plain text", () => {
-        const log = useLogger("Hello World");
+describe("Levels", () => {
+    test("Custom levels get their own method and severity", () => {
+        const { records, transport } = recorder("WARN");
+        const logger = Logger.withLevels("Bun-testing", "level-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { json: false, txt: false },
+            levels: { AUDIT: { severity: 35, colour: "#00ffff" }, TRACE: { severity: 5, colour: "#808080" } },
+            transports: [transport],
+        });
+
+        logger.trace("Too quiet");
+        logger.audit("User deleted", { id: 1 });
+        logger.logAt("TRACE", "Still too quiet");
+
+        expect(records.map((record) => record.logLevel)).toEqual(["AUDIT"]);
+        expect(logger.child("child-tests").audit).toBe(logger.audit);
+    });
+});
+
+describe("Configure", () => {
+    test("Moves new logs to a new path", async () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "louis-log-"));
+        const logger = new Logger("Bun-testing", "configure-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { path: path.join(tmpDir, "before"), splitBy: "don't split", txt: false },
+        });
+
+        logger.error("Before");
+        await logger.configure({ logStorage: { path: path.join(tmpDir, "after") } });
+        logger.error("After");
+        await logger.flush();
+
+        expect(fs.readFileSync(path.join(tmpDir, "before/logs.json.log"), "utf8")).not.toContain('"After"');
+        expect(fs.readFileSync(path.join(tmpDir, "after/logs.json.log"), "utf8")).toContain('"After"');
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+    test("Reads LOUIS_LOG_* environment variables", () => {
+        const settings = settingsFromEnv({
+            LOUIS_LOG_LEVEL: "debug",
+            LOUIS_LOG_STDOUT: "off",
+            LOUIS_LOG_PATH: "/var/log/example",
+            LOUIS_LOG_SPLIT: "hour",
+            LOUIS_LOG_WEBHOOK_URL: "https://example.com/hook",
+            LOUIS_LOG_WEBHOOK_LEVEL: "error",
+        });
+
+        expect(settings.show).toEqual({ minLevel: "DEBUG", ignoreLevels: [], stdoutEnable: false });
+        expect(settings.logStorage).toEqual({
+            minLevel: "DEBUG",
+            ignoreLevels: [],
+            path: "/var/log/example",
+            splitBy: "hour",
+        });
+        expect(settings.logWebook?.enable).toBe(true);
+        expect(settings.logWebook?.minLevel).toBe("ERROR");
+    });
+    test("Leaves out environment sections with nothing set", () => {
+        expect(settingsFromEnv({ LOUIS_LOG_PATH: "/var/log/example" })).toEqual({
+            logStorage: { path: "/var/log/example" },
+        });
+        expect(settingsFromEnv({})).toEqual({});
+    });
+    test("Shares one SIGHUP listener and stops reloading closed loggers", async () => {
+        const quiet = { show: { stdoutEnable: false }, logStorage: { json: false, txt: false }, reloadOnSighup: true };
+        const listeners = process.listenerCount("SIGHUP");
+        const { records, transport } = recorder();
+        const open = new Logger("Bun-testing", "open", { ...quiet, transports: [transport] });
+        const closed = new Logger("Bun-testing", "closed", { ...quiet, transports: [transport] });
+        await closed.close();
+        const closedByChild = new Logger("Bun-testing", "closed-by-child", { ...quiet, transports: [transport] });
+        await closedByChild.child("child-tests").close();
+
+        expect(process.listenerCount("SIGHUP")).toBeLessThanOrEqual(Math.max(listeners, 1));
+        process.kill(process.pid, "SIGHUP");
+        await Bun.sleep(20);
+        await open.close();
+
+        const reloaded = records.filter((record) => record.logMessage == "Reloaded settings on SIGHUP");
+        expect(reloaded.map((record) => record.subProcess)).toEqual(["open"]);
+    });
+});
+
+describe("Shutdown", () => {
+    // Runs a script that uses the logger in its own process, so signals and exits don't reach the test runner
+    const runScript = async (name: string, body: string) => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "louis-log-"));
+        const script = path.join(dir, `${name}.ts`);
+        fs.writeFileSync(
+            script,
+            `import Logger from ${JSON.stringify(path.resolve("src/index.ts"))};
+            const logger = new Logger("Bun-testing", "shutdown-tests", {
+                show: { stdoutEnable: false },
+                handleProcessSignals: true,
+                logStorage: { path: ${JSON.stringify(dir)}, splitBy: "don't split", flushIntervalMs: 0 },
+            });
+            ${body}`,
+        );
+        const child = Bun.spawn({ cmd: [process.execPath, script], stdout: "ignore", stderr: "ignore" });
+        await child.exited;
+        const logs = fs.readFileSync(path.join(dir, "logs.txt.log"), "utf8");
+        fs.rmSync(dir, { recursive: true, force: true });
+        return { exitCode: child.exitCode, signalCode: child.signalCode, logs };
+    };
+
+    test("close flushes without exiting, once", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "louis-log-"));
+        const logger = new Logger("Bun-testing", "shutdown-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { path: dir, splitBy: "don't split", flushIntervalMs: 0 },
+        });
+        logger.info("Buffered");
+
+        const closing = logger.close();
+        expect(logger.child("child-tests").close()).toBe(closing);
+        await closing;
+
+        expect(fs.readFileSync(path.join(dir, "logs.txt.log"), "utf8")).toContain("Buffered");
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+    test("Flushes on SIGTERM, then re-raises it", async () => {
+        const { signalCode, logs } = await runScript(
+            "signal",
+            `logger.info("Before signal");
+            setInterval(() => {}, 1000);
+            setTimeout(() => process.kill(process.pid, "SIGTERM"), 20);`,
+        );
 
-        expect(log).toContain("Hello World");
-        expect(useLogger).toHaveBeenCalled();
+        expect(logs).toContain("[INFO] Before signal");
+        expect(signalCode).toBe("SIGTERM");
     });
-    test("Alphanumeric", () => {
-        const log = useLogger("Hello World 123");
+    test("Leaves loggers open for the host's own signal handler", async () => {
+        const { exitCode, logs } = await runScript(
+            "host-signal",
+            `logger.info("Before signal");
+            process.on("SIGTERM", () => {
+                setTimeout(async () => {
+                    logger.info("Server closed");
+                    await logger.close();
+                    process.exit(0);
+                }, 20);
+            });
+            setInterval(() => {}, 1000);
+            setTimeout(() => process.kill(process.pid, "SIGTERM"), 20);`,
+        );
 
-        expect(log).toContain("Hello World 123");
-        expect(useLogger).toHaveBeenCalled();
+        expect(logs).toContain("[INFO] Before signal");
+        expect(logs).toContain("[INFO] Server closed");
+        expect(exitCode).toBe(0);
     });
-    test("Special Characters", () => {
-        const log = useLogger("Hello, World! 123");
+    test("Logs unhandled rejections as FATAL and exits with code 1", async () => {
+        const { exitCode, logs } = await runScript("rejection", `Promise.reject(new Error("Nobody caught this"));`);
 
-        expect(log).toContain("Hello, World! 123");
-        expect(useLogger).toHaveBeenCalled();
+        expect(logs).toContain("[FATAL] Unhandled promise rejection");
+        expect(logs).toContain("Nobody caught this");
+        expect(exitCode).toBe(1);
     });
 });
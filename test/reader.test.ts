@@ -0,0 +1,56 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LogReader, type LogJSON } from "../src/index.ts";
+import { findLogFiles } from "../src/view.ts";
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "louis-log-"));
+
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+// Writes logs to the file generatePaths would use for them, split by day
+function writeLogs(logs: { date: Date; logLevel: string; subProcess: string; logMessage: string }[]) {
+    for (const log of logs) {
+        const pad = (value: number) => String(value).padStart(2, "0");
+        const dir = path.join(tmpDir, String(log.date.getFullYear()), pad(log.date.getMonth() + 1));
+        fs.mkdirSync(dir, { recursive: true });
+        const logJSON = { schemaVersion: 2, formattedDate: "", mainProcess: "Bun-testing", logData: null, ...log };
+        fs.appendFileSync(path.join(dir, `${pad(log.date.getDate())}.json.log`), JSON.stringify(logJSON) + "\n");
+    }
+}
+
+writeLogs([
+    { date: new Date(2024, 5, 19, 12), logLevel: "ERROR", subProcess: "db", logMessage: "Too early" },
+    { date: new Date(2024, 5, 20, 9), logLevel: "INFO", subProcess: "db", logMessage: "Connected" },
+    { date: new Date(2024, 5, 20, 10), logLevel: "ERROR", subProcess: "db", logMessage: "Query failed" },
+    { date: new Date(2024, 5, 20, 11), logLevel: "ERROR", subProcess: "web", logMessage: "Bad request" },
+    { date: new Date(2024, 6, 1, 8), logLevel: "FATAL", subProcess: "db", logMessage: "Too late" },
+]);
+
+describe("Query", () => {
+    test("Only opens files that overlap the time range", async () => {
+        const files = await findLogFiles(tmpDir, { since: new Date(2024, 5, 20), until: new Date(2024, 5, 20, 23) });
+        expect(files.map((file) => path.relative(tmpDir, file))).toEqual([path.join("2024", "06", "20.json.log")]);
+    });
+    test("Filters by time, level, process and predicate", async () => {
+        const reader = new LogReader(tmpDir);
+        const found: LogJSON[] = [];
+        for await (const log of reader.query({
+            since: new Date(2024, 5, 20),
+            until: new Date(2024, 5, 30),
+            levels: ["ERROR", "FATAL"],
+            subProcess: "db",
+            match: (log) => log.logMessage.includes("failed"),
+        }))
+            found.push(log);
+
+        expect(found.map((log) => log.logMessage)).toEqual(["Query failed"]);
+    });
+    test("Reads everything oldest first without a filter", async () => {
+        const messages: string[] = [];
+        for await (const log of new LogReader(tmpDir).query()) messages.push(log.logMessage);
+
+        expect(messages).toEqual(["Too early", "Connected", "Query failed", "Bad request", "Too late"]);
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, test, expect } from "bun:test";
+import Logger, { redactPatterns } from "../src/index.ts";
+import { redact } from "../src/redact.ts";
+import { defaultSettings } from "../src/settings.ts";
+import { recorder } from "./helpers.ts";
+
+const settings = (redactSettings: object) => ({ ...defaultSettings.redact, ...redactSettings });
+
+describe("Paths", () => {
+    test("Exact paths ignore case", () => {
+        const value = redact(
+            { headers: { Authorization: "Bearer abc", accept: "*/*" } },
+            settings({ paths: ["headers.authorization"] }),
+        );
+
+        expect(value).toEqual({ headers: { Authorization: "[REDACTED]", accept: "*/*" } });
+    });
+    test("Wildcards", () => {
+        const value = redact(
+            { user: { password: "hunter2" }, admin: { password: "admin" }, deep: { a: { b: { token: "t" } } } },
+            settings({ paths: ["*.password", "**.token"] }),
+        );
+
+        expect(value).toEqual({
+            user: { password: "[REDACTED]" },
+            admin: { password: "[REDACTED]" },
+            deep: { a: { b: { token: "[REDACTED]" } } },
+        });
+    });
+    test("Hashing and removal", () => {
+        const value = redact(
+            { userId: "1234", secret: "shh" },
+            settings({
+                paths: [
+                    { path: "userId", action: "hash" },
+                    { path: "secret", action: "remove" },
+                ],
+            }),
+        );
+
+        expect(value.userId).toMatch(/^sha256:[0-9a-f]{16}$/);
+        expect(value).not.toHaveProperty("secret");
+    });
+});
+
+describe("Patterns", () => {
+    test("Emails, bearer tokens and card numbers", () => {
+        const value = redact(
+            ["Sent to louis@example.com", "Authorization: Bearer abc.def", "Paid with 4111 1111 1111 1111"],
+            settings({ patterns: [redactPatterns.email, redactPatterns.bearer, redactPatterns.card] }),
+        );
+
+        expect(value).toEqual(["Sent to [REDACTED]", "Authorization: [REDACTED]", "Paid with [REDACTED]"]);
+    });
+    test("Card numbers have to pass the Luhn check", () => {
+        const value = redact(
+            ["Paid with 4111111111111111", "At 1718901545514", "Order 4111111111111112"],
+            settings({ patterns: [{ pattern: redactPatterns.card, action: "mask" }] }),
+        );
+
+        expect(value).toEqual(["Paid with [REDACTED]", "At 1718901545514", "Order 4111111111111112"]);
+    });
+});
+
+describe("Logger", () => {
+    test("Redacts before any transport sees the log", () => {
+        const { records, transport } = recorder();
+        const logger = new Logger("Bun-testing", "redact-tests", {
+            show: { stdoutEnable: false },
+            logStorage: { json: false, txt: false },
+            redact: { paths: ["body.password"], patterns: [redactPatterns.email] },
+            transports: [transport],
+        });
+
+        logger.info("Login from louis@example.com", { body: { user: "louis", password: "hunter2" } });
+
+        const record = records.find((record) => record.logLevel == "INFO")!;
+        expect(record.logMessage).toBe("Login from [REDACTED]");
+        expect(record.data).toEqual({ body: { user: "louis", password: "[REDACTED]" } });
+        expect(record.logData).not.toContain("hunter2");
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, test, expect } from "bun:test";
+import { toJSONValue, toText } from "../src/serialize.ts";
+
+describe("toJSONValue", () => {
+    test("Circular references", () => {
+        const data: any = { name: "loop" };
+        data.self = data;
+
+        expect(toJSONValue(data)).toEqual({ name: "loop", self: "[Circular]" });
+    });
+    test("Repeated references are not circular", () => {
+        const shared = { id: 1 };
+
+        expect(toJSONValue({ a: shared, b: shared })).toEqual({ a: { id: 1 }, b: { id: 1 } });
+    });
+    test("Errors keep their message, stack and cause", () => {
+        const error = new Error("Outer", { cause: new TypeError("Inner") });
+        const value = toJSONValue(error);
+
+        expect(value.name).toBe("Error");
+        expect(value.message).toBe("Outer");
+        expect(value.stack).toContain("Outer");
+        expect(value.cause.name).toBe("TypeError");
+        expect(value.cause.message).toBe("Inner");
+    });
+    test("BigInt, Map, Set and Date", () => {
+        const value = toJSONValue({
+            big: 10n ** 20n,
+            map: new Map([["key", 1]]),
+            set: new Set([1, 2]),
+            date: new Date("2024-06-20T16:39:05.514Z"),
+        });
+
+        expect(value).toEqual({
+            big: "100000000000000000000",
+            map: { key: 1 },
+            set: [1, 2],
+            date: "2024-06-20T16:39:05.514Z",
+        });
+        expect(() => JSON.stringify(value)).not.toThrow();
+    });
+});
+
+describe("Limits", () => {
+    const settings = { maxDepth: 2, maxArrayLength: 3, maxStringLength: 5, maxSize: 1000 };
+
+    test("Depth", () => {
+        expect(toJSONValue({ a: { b: { c: 1 }, list: [[1]] } }, settings)).toEqual({
+            a: { b: "[Object]", list: "[Array]" },
+        });
+    });
+    test("Array length", () => {
+        expect(toJSONValue([1, 2, 3, 4, 5], settings)).toEqual([1, 2, 3, "... 2 more items"]);
+    });
+    test("String length", () => {
+        expect(toJSONValue("Hello World", settings)).toBe("Hello... 6 more characters");
+    });
+    test("Object and Map keys", () => {
+        expect(toJSONValue({ a: 1, b: 2, c: 3, d: 4, e: 5 }, settings)).toEqual({
+            a: 1,
+            b: 2,
+            c: 3,
+            "...": "2 more keys",
+        });
+        expect(toJSONValue(new Map([["a", 1], ["b", 2], ["c", 3], ["d", 4]]), settings)).toEqual({
+            a: 1,
+            b: 2,
+            c: 3,
+            "...": "1 more keys",
+        });
+    });
+    test("Total size", () => {
+        const wide = Object.fromEntries(Array.from({ length: 1000 }, (_, i) => [`key${i}`, "x".repeat(100)]));
+        const value = toJSONValue(wide, { ...settings, maxArrayLength: 10000, maxStringLength: 10000, maxSize: 2000 });
+
+        expect(JSON.stringify(value).length).toBeLessThan(2500);
+        expect(value["..."]).toMatch(/^\d+ more keys$/);
+    });
+    test("AggregateError keeps every error", () => {
+        const value = toJSONValue(new AggregateError([new Error("One"), new Error("Two")], "Both failed"));
+
+        expect(value.message).toBe("Both failed");
+        expect(value.errors.map((error: any) => error.message)).toEqual(["One", "Two"]);
+    });
+});
+
+describe("toText", () => {
+    test("Strings stay as they are, objects are indented JSON", () => {
+        expect(toText("Hello")).toBe("Hello");
+        expect(toText(null)).toBe("");
+        expect(toText(5)).toBe("5");
+        expect(toText({ a: 1 })).toBe('{\n    "a": 1\n}');
+    });
+});
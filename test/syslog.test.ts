@@ -0,0 +1,128 @@
+import { describe, test, expect } from "bun:test";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createRequire } from "node:module";
+import { SyslogTransport } from "../src/index.ts";
+import { formSyslog } from "../src/syslog.ts";
+import { defaultSettings } from "../src/settings.ts";
+import { record } from "./helpers.ts";
+
+// bun-types doesn't declare node:dgram, so the parts the stand-in collector uses are typed here
+type UdpSocket = {
+    on(event: "message", listener: (message: Buffer) => void): void;
+    bind(port: number, address: string, callback: () => void): void;
+    address(): { port: number };
+    close(): void;
+};
+const dgram: { createSocket(type: "udp4"): UdpSocket } = createRequire(import.meta.url)("node:dgram");
+
+// Collects everything a stand-in collector receives
+const listen = (server: net.Server) => {
+    let received = "";
+    server.on("connection", (socket) => socket.on("data", (data) => (received += data.toString())));
+    return () => received;
+};
+
+const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) await new Promise((resolve) => setTimeout(resolve, 10));
+};
+
+describe("Syslog", () => {
+    test("Forms RFC 5424 messages", () => {
+        const message = formSyslog(
+            record("ERROR", "Query failed", {
+                mainProcess: "Bun testing",
+                data: { query: { table: "users" }, note: 'a "quoted" ]' },
+            }),
+            { ...defaultSettings.syslog, facility: 16 },
+        );
+
+        expect(message).toBe(
+            `<131>1 2024-06-20T16:39:05.514Z ${os.hostname()} Bun_testing ${process.pid} tests ` +
+                `[data@32473 query.table="users" note="a \\"quoted\\" \\]"] Query failed`,
+        );
+        expect(formSyslog(record("DEBUG", "Details"), defaultSettings.syslog)).toStartWith("<15>1 ");
+        expect(formSyslog(record("WARN", "Careful"), defaultSettings.syslog)).toContain(" tests - Careful");
+    });
+    test("Cuts messages down to fit", () => {
+        const big = record("INFO", "é".repeat(1000), { data: { blob: "x".repeat(1000) }, context: { id: 7 } });
+        const message = formSyslog(big, defaultSettings.syslog, undefined, 500);
+
+        expect(Buffer.byteLength(message)).toBeLessThanOrEqual(500);
+        expect(message).not.toContain("data@32473");
+        expect(message).toContain('[context@32473 id="7"] éé');
+        expect(message).not.toContain("\ufffd");
+        expect(formSyslog(big, defaultSettings.syslog)).toContain("x".repeat(1000));
+    });
+    test("Keeps UDP messages within maxMessageSize", async () => {
+        const socket = dgram.createSocket("udp4");
+        const received: Buffer[] = [];
+        socket.on("message", (message) => received.push(message));
+        await new Promise<void>((resolve) => socket.bind(0, "127.0.0.1", resolve));
+
+        const reported: string[] = [];
+        const transport = new SyslogTransport(
+            { protocol: "udp", port: socket.address().port, maxMessageSize: 1024 },
+            { report: (logLevel, message) => reported.push(message) },
+        );
+        transport.write(record("INFO", "Huge", { data: { blob: "x".repeat(100000) } }));
+        transport.write(record("INFO", "y".repeat(100000)));
+        await transport.flush();
+        await waitFor(() => received.length == 2);
+        await transport.close();
+        socket.close();
+
+        expect(received.map((message) => message.length <= 1024)).toEqual([true, true]);
+        expect(received[0].toString()).toEndWith(" - Huge");
+        expect(transport.stats).toEqual({ sent: 2, dropped: 0 });
+        expect(reported).toEqual([]);
+    });
+    test("Holds logs back until the TCP collector is up, with octet counting", async () => {
+        // Find a free port, then leave it closed so the first connection fails
+        const finder = net.createServer().listen(0);
+        await new Promise((resolve) => finder.once("listening", resolve));
+        const port = (finder.address() as net.AddressInfo).port;
+        await new Promise((resolve) => finder.close(resolve));
+
+        const transport = new SyslogTransport({ protocol: "tcp", port, reconnectDelayMs: 20 }, { report: () => {} });
+        transport.write(record("INFO", "First"));
+        transport.write(record("INFO", "Second"));
+
+        const server = net.createServer().listen(port);
+        const received = listen(server);
+        await waitFor(() => received().includes("Second"));
+        await transport.close();
+        server.close();
+
+        const frames = received().match(/(\d+) (<\d+>1 [^]*?)(?=\d+ <|$)/g)!;
+        expect(frames).toHaveLength(2);
+        for (const frame of frames) {
+            const [length, ...rest] = frame.split(" ");
+            expect(Buffer.byteLength(rest.join(" "))).toBe(Number(length));
+        }
+        expect(transport.stats).toEqual({ sent: 2, dropped: 0 });
+    });
+    test("Flushes and closes over a Unix stream socket", async () => {
+        const socketPath = path.join(os.tmpdir(), `louis-log-${process.pid}.sock`);
+        const server = net.createServer().listen(socketPath);
+        const received = listen(server);
+        await new Promise((resolve) => server.once("listening", resolve));
+
+        const transport = new SyslogTransport({ protocol: "unix", path: socketPath, framing: "newline" });
+        transport.write(record("INFO", "Over a socket"));
+        await waitFor(() => transport.stats.sent == 1);
+        await transport.flush();
+        await transport.close();
+        await waitFor(() => received().includes("Over a socket"));
+        server.close();
+
+        expect(received()).toEndWith("Over a socket\n");
+    });
+    test("Needs a path for Unix sockets", () => {
+        const reported: string[] = [];
+        new SyslogTransport({ protocol: "unix" }, { report: (logLevel, message) => reported.push(message) });
+
+        expect(reported).toEqual(["Syslog needs a path to connect to a Unix socket"]);
+    });
+});
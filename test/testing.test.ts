@@ -0,0 +1,52 @@
+import { describe, test, expect } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import Logger, { MemoryTransport, expectLogged, expectNotLogged } from "../src/index.ts";
+
+describe("Test mode", () => {
+    test("Keeps logs in memory, without writing anywhere", async () => {
+        const dir = path.join(os.tmpdir(), `louis-log-${process.pid}-test-mode`);
+        process.env.LOUIS_LOG_STDOUT = "true";
+        const logger = new Logger("Bun-testing", "test-mode", { testMode: true, logStorage: { path: dir } });
+        delete process.env.LOUIS_LOG_STDOUT;
+
+        await logger.child("child-tests").error("Request timeout", { retries: 3, request: { path: "/users" } });
+        await logger.info("Done");
+
+        expect(logger.memory).toBeInstanceOf(MemoryTransport);
+        expect(logger.memory!.logs.map((log) => log.logMessage)).toEqual(["Request timeout", "Done"]);
+        expect(fs.existsSync(dir)).toBe(false);
+
+        const logs = await logger.drain();
+        expect(logs).toHaveLength(2);
+        expect(logger.memory!.logs).toHaveLength(0);
+    });
+    test("expectLogged matches level, message, data and context", async () => {
+        const logger = new Logger("Bun-testing", "test-mode", { testMode: true });
+
+        await logger.withContext({ requestId: "abc" }, () =>
+            logger.error("Request timeout after 30s", { retries: 3, request: { path: "/users", method: "GET" } }),
+        );
+        await logger.warn("Slow");
+
+        const [log] = expectLogged(logger, {
+            level: "ERROR",
+            message: /timeout/,
+            data: { request: { path: /^\/users/ } },
+            context: { requestId: "abc" },
+        });
+        expect(log.logData.retries).toBe(3);
+        expectLogged(logger, { minLevel: "WARN" }, 2);
+        expectNotLogged(logger, { level: "FATAL" });
+
+        expect(() => expectLogged(logger, { level: "ERROR", message: /refused/ })).toThrow(
+            'Expected a log matching {"level":"ERROR","message":"/refused/"}, found 0\nLogged:\n' +
+                '    [ERROR] <Bun-testing.test-mode> Request timeout after 30s {"retries":3,',
+        );
+        expect(() => expectNotLogged(logger, { message: "Slow" })).toThrow("Expected 0 logs");
+        expect(() => expectLogged(new Logger("Bun-testing", "test-mode", { testMode: true }), {})).toThrow(
+            "Nothing was logged",
+        );
+    });
+});
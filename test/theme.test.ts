@@ -0,0 +1,78 @@
+import { describe, test, expect, spyOn } from "bun:test";
+import { colourLevel, resolveTheme, themePainter } from "../src/theme.ts";
+import { formTxtLog } from "../src/format.ts";
+import { defaultSettings } from "../src/settings.ts";
+import { record as logRecord } from "./helpers.ts";
+
+const record = logRecord("WARN", "Hello World");
+
+const ansi = /\u001b\[/;
+
+function withEnv<T>(env: { [key: string]: string | undefined }, run: () => T): T {
+    const original: { [key: string]: string | undefined } = {};
+    for (const key of Object.keys(env)) {
+        original[key] = process.env[key];
+        if (env[key] == undefined) delete process.env[key];
+        else process.env[key] = env[key];
+    }
+    try {
+        return run();
+    } finally {
+        for (const key of Object.keys(original)) {
+            if (original[key] == undefined) delete process.env[key];
+            else process.env[key] = original[key];
+        }
+    }
+}
+
+describe("Colour detection", () => {
+    test("Only colours a TTY", () => {
+        withEnv({ NO_COLOR: undefined, FORCE_COLOR: undefined, TERM: "xterm" }, () => {
+            expect(colourLevel("auto", { isTTY: true })).toBeGreaterThan(0);
+            expect(colourLevel("auto", { isTTY: false })).toBe(0);
+        });
+    });
+    test("Respects NO_COLOR and FORCE_COLOR", () => {
+        withEnv({ NO_COLOR: "1", FORCE_COLOR: undefined }, () => {
+            expect(colourLevel("auto", { isTTY: true })).toBe(0);
+        });
+        withEnv({ NO_COLOR: undefined, FORCE_COLOR: "1" }, () => {
+            expect(colourLevel("auto", { isTTY: false })).toBeGreaterThan(0);
+            expect(colourLevel(false, { isTTY: true })).toBe(0);
+        });
+    });
+});
+
+describe("Themes", () => {
+    test("Colours each part separately", () => {
+        const { paint, line } = themePainter({ date: "gray", level: "level.bold", message: (text) => `*${text}*` }, 1);
+        const log = line(formTxtLog(record, defaultSettings.show, paint), record.logLevel);
+
+        expect(log).toMatch(ansi);
+        expect(log).toContain("<Bun-testing.tests>");
+        expect(log).toContain("*Hello World*");
+    });
+    test("Leaves out colours when they are turned off", () => {
+        const { paint, line } = themePainter(resolveTheme("subtle"), 0);
+        const log = line(formTxtLog(record, defaultSettings.show, paint), record.logLevel);
+
+        expect(log).not.toMatch(ansi);
+        expect(log).toBe(formTxtLog(record, defaultSettings.show));
+    });
+    test("Reports bad theme entries once, when the theme is made", () => {
+        const error = spyOn(console, "error").mockImplementation(() => {});
+        try {
+            const { paint, line } = themePainter({ date: "notAColour", levels: { WARN: "level" }, level: "level" }, 1);
+            const calls = error.mock.calls.length;
+            for (let i = 0; i < 10; i++) line(formTxtLog(record, defaultSettings.show, paint), record.logLevel);
+
+            expect(error.mock.calls).toEqual([
+                ["Unknown colour in theme", "notAColour"],
+                ['Level colours in themes can\'t use "level"', "WARN"],
+            ]);
+            expect(calls).toBe(2);
+        } finally {
+            error.mockRestore();
+        }
+    });
+});
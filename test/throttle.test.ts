@@ -0,0 +1,52 @@
+import { describe, test, expect } from "bun:test";
+import { ThrottledTransport } from "../src/index.ts";
+import { record, recorder } from "./helpers.ts";
+
+describe("Throttle", () => {
+    test("Samples by level", () => {
+        const { records, transport } = recorder("INFO");
+        const throttled = new ThrottledTransport(transport, { sample: { DEBUG: 0, INFO: 1 } });
+
+        for (let i = 0; i < 20; i++) throttled.write(record("DEBUG", `Debug ${i}`));
+        throttled.write(record("INFO", "Info"));
+
+        expect(records.map((record) => record.logMessage)).toEqual(["Info"]);
+        expect(throttled.stats.sampled).toBe(20);
+        expect(throttled.minLevel).toBe("INFO");
+    });
+    test("Collapses repeats into one log per window", async () => {
+        const { records, transport } = recorder("INFO");
+        const throttled = new ThrottledTransport(transport, { dedupeWindowMs: 30 });
+
+        for (let i = 0; i < 500; i++) throttled.write(record("ERROR", "Database unavailable"));
+        throttled.write(record("ERROR", "Something else"));
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        throttled.write(record("ERROR", "Database unavailable"));
+        await throttled.flush();
+
+        expect(records.map((record) => record.logMessage)).toEqual([
+            "Database unavailable",
+            "Something else",
+            "Database unavailable (last message repeated 499 times)",
+            "Database unavailable",
+        ]);
+        expect(throttled.stats.deduplicated).toBe(499);
+    });
+    test("Rate limits each message key with a token bucket", async () => {
+        const { records, transport } = recorder("INFO");
+        const throttled = new ThrottledTransport(transport, { rateLimit: 1, burst: 3 });
+
+        for (let i = 0; i < 10; i++) throttled.write(record("ERROR", "Database unavailable"));
+        throttled.write(record("ERROR", "Other key"));
+        await throttled.flush();
+
+        expect(records.map((record) => record.logMessage)).toEqual([
+            "Database unavailable",
+            "Database unavailable",
+            "Database unavailable",
+            "Other key",
+            "Database unavailable (7 similar logs were rate limited)",
+        ]);
+        expect(throttled.stats.rateLimited).toBe(7);
+    });
+});
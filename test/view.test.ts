@@ -0,0 +1,130 @@
+import { describe, test, expect, afterAll, spyOn } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as zlib from "node:zlib";
+import { findLogFiles, followLogFiles, logToRecord, matchesFilter, parseLogLine, readLogLines } from "../src/view.ts";
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "louis-log-"));
+
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+const logLine = (logMessage: string, logLevel: string = "INFO", date: string = "2024-01-31T09:00:00.000Z") =>
+    JSON.stringify({
+        schemaVersion: 2,
+        date: date,
+        formattedDate: date,
+        mainProcess: "Bun-testing",
+        subProcess: "view-tests",
+        logLevel,
+        logMessage,
+        logData: { userId: 42 },
+    });
+
+describe("Reading", () => {
+    test("Finds files oldest first, including compressed ones", async () => {
+        const dir = path.join(tmpDir, "find");
+        fs.mkdirSync(path.join(dir, "2024/01"), { recursive: true });
+        fs.mkdirSync(path.join(dir, "2024/02"), { recursive: true });
+        fs.writeFileSync(path.join(dir, "2024/02/01.json.log"), logLine("February") + "\n");
+        fs.writeFileSync(path.join(dir, "2024/01/31.10.json.log"), logLine("Tenth") + "\n");
+        fs.writeFileSync(path.join(dir, "2024/01/31.2.json.log"), logLine("Second") + "\n");
+        fs.writeFileSync(path.join(dir, "2024/01/31.json.log.gz"), zlib.gzipSync(logLine("First") + "\n"));
+        fs.writeFileSync(path.join(dir, "2024/01/31.txt.log"), "Not JSON\n");
+
+        const files = await findLogFiles(dir);
+        expect(files.map((file) => path.relative(dir, file))).toEqual([
+            "2024/01/31.json.log.gz",
+            "2024/01/31.2.json.log",
+            "2024/01/31.10.json.log",
+            "2024/02/01.json.log",
+        ]);
+
+        const messages: string[] = [];
+        for (const file of files)
+            for await (const line of readLogLines(file)) {
+                const log = parseLogLine(line);
+                if (log != undefined) messages.push(log.logMessage);
+            }
+        expect(messages).toEqual(["First", "Second", "Tenth", "February"]);
+    });
+    test("Streams compressed files line by line", async () => {
+        const file = path.join(tmpDir, "streamed.json.log.gz");
+        const lines = Array.from({ length: 5000 }, (_, i) => logLine(`Log ${i}`));
+        fs.writeFileSync(file, zlib.gzipSync(lines.join("\n") + "\n"));
+
+        const read: string[] = [];
+        for await (const line of readLogLines(file)) read.push(line);
+
+        expect(read).toEqual(lines);
+        fs.writeFileSync(file, "Not compressed");
+        await expect(readLogLines(file).next()).rejects.toThrow();
+    });
+    test("Filters by level, process, time and pattern", () => {
+        const log = parseLogLine(logLine("Payment failed", "ERROR"))!;
+
+        expect(logToRecord(log).logData).toContain('"userId": 42');
+        expect(matchesFilter(log, { minLevel: "WARN", mainProcess: "Bun-testing" })).toBe(true);
+        expect(matchesFilter(log, { minLevel: "FATAL" })).toBe(false);
+        expect(matchesFilter(log, { subProcess: "other" })).toBe(false);
+        expect(matchesFilter(log, { since: new Date("2024-02-01") })).toBe(false);
+        expect(matchesFilter(log, { until: new Date("2024-02-01") })).toBe(true);
+        expect(matchesFilter(log, { grep: /userid": 42/i })).toBe(true);
+        expect(matchesFilter(log, { grep: /refund/i })).toBe(false);
+    });
+});
+
+describe("Follow", () => {
+    test("Picks up new lines and new files", async () => {
+        const dir = path.join(tmpDir, "follow");
+        fs.mkdirSync(path.join(dir, "2024/01"), { recursive: true });
+        fs.writeFileSync(path.join(dir, "2024/01/31.json.log"), logLine("Already there") + "\n");
+
+        const messages: string[] = [];
+        const stop = await followLogFiles(dir, (line) => messages.push(parseLogLine(line)!.logMessage), false, 20);
+
+        fs.appendFileSync(path.join(dir, "2024/01/31.json.log"), logLine("Appended") + "\n");
+        fs.mkdirSync(path.join(dir, "2024/02"), { recursive: true });
+        fs.writeFileSync(path.join(dir, "2024/02/01.json.log"), logLine("Next month") + "\n");
+        await new Promise((resolve) => setTimeout(resolve, 150));
+        stop();
+
+        expect(messages).toEqual(["Appended", "Next month"]);
+    });
+    test("Reads the last lines of a file from its archive once it's compressed", async () => {
+        const dir = path.join(tmpDir, "follow-rollover");
+        const file = path.join(dir, "logs.json.log");
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(file, logLine("Already there") + "\n");
+
+        const messages: string[] = [];
+        const stop = await followLogFiles(dir, (line) => messages.push(parseLogLine(line)!.logMessage), false, 20);
+
+        // Written and compressed between two checks, like the transport does at a rollover
+        fs.appendFileSync(file, logLine("Last before rollover") + "\n");
+        fs.writeFileSync(file + ".gz", zlib.gzipSync(fs.readFileSync(file)));
+        fs.unlinkSync(file);
+        fs.writeFileSync(path.join(dir, "logs.1.json.log"), logLine("After rollover") + "\n");
+        await new Promise((resolve) => setTimeout(resolve, 150));
+        stop();
+
+        expect(messages).toEqual(["Last before rollover", "After rollover"]);
+    });
+    test("Reads large files from the start a chunk at a time", async () => {
+        const dir = path.join(tmpDir, "follow-large");
+        fs.mkdirSync(dir, { recursive: true });
+        const lines = Array.from({ length: 2000 }, (_, i) => logLine(`Log ${i}`));
+        fs.writeFileSync(path.join(dir, "logs.json.log"), lines.join("\n") + "\n");
+
+        const reads = spyOn(fs, "readSync");
+        const messages: string[] = [];
+        const stop = await followLogFiles(dir, (line) => messages.push(parseLogLine(line)!.logMessage), true, 20);
+        stop();
+        const readCount = reads.mock.calls.length;
+        reads.mockRestore();
+
+        expect(messages).toEqual(lines.map((_, i) => `Log ${i}`));
+        const size = fs.statSync(path.join(dir, "logs.json.log")).size;
+        expect(readCount).toBe(Math.ceil(size / (64 * 1024)));
+    });
+});
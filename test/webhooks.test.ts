@@ -0,0 +1,198 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import Logger, { WebhookTransport } from "../src/index.ts";
+import { record } from "./helpers.ts";
+
+const requests: { path: string; headers: Headers; body: any }[] = [];
+const responses: (() => Response)[] = [];
+
+// Local stand-in for discord, slack, teams and generic webhook endpoints
+const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+        requests.push({ path: new URL(req.url).pathname, headers: req.headers, body: await req.json() });
+        return responses.shift()?.() ?? new Response(null, { status: 204 });
+    },
+});
+
+afterAll(() => server.stop(true));
+
+describe("Webhooks", () => {
+    test("Discord embeds are coloured by level", async () => {
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "discord" });
+        transport.write(record("ERROR", "Broken"));
+        await transport.flush();
+
+        const body = requests.pop()!.body;
+        expect(body.username).toBe("Bun-testing.tests");
+        expect(body.embeds[0].title).toBe("<Bun-testing.tests> [ERROR] Broken");
+        expect(body.embeds[0].color).toBe(0xe74c3c);
+    });
+    test("Discord footers hold the context", async () => {
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "discord" });
+        transport.write({ ...record("INFO", "Request"), context: { requestId: "abc", userId: 42 } });
+        await transport.flush();
+
+        const body = requests.pop()!.body;
+        expect(body.embeds[0].footer.text).toBe("2024-06-20 17:39:05:514 GMT+0100 | requestId=abc userId=42");
+    });
+    test("Slack attachments hold blocks", async () => {
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "slack" });
+        transport.write(record("WARN", "Careful", { logData: "some data", data: "some data" }));
+        await transport.flush();
+
+        const body = requests.pop()!.body;
+        expect(body.attachments[0].color).toBe("#f1c40f");
+        expect(body.attachments[0].blocks[1].text.text).toContain("some data");
+    });
+    test("Slack text is escaped so the process tag survives", async () => {
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "slack" });
+        transport.write(record("ERROR", "a < b & c", { logData: "<html>", data: "<html>" }));
+        await transport.flush();
+
+        const blocks = requests.pop()!.body.attachments[0].blocks;
+        expect(blocks[0].text.text).toBe("*&lt;Bun-testing.tests&gt; [ERROR] a &lt; b &amp; c*");
+        expect(blocks[1].text.text).toBe("```&lt;html&gt;```");
+    });
+    test("Teams cards use the most severe colour", async () => {
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "teams" });
+        transport.write(record("INFO", "Fine"));
+        transport.write(record("FATAL", "Not fine"));
+        await transport.flush();
+
+        const body = requests.pop()!.body;
+        expect(body["@type"]).toBe("MessageCard");
+        expect(body.themeColor).toBe("ff0000");
+        expect(body.sections).toHaveLength(2);
+    });
+    test("JSON template and headers", async () => {
+        const transport = new WebhookTransport({
+            url: new URL(server.url),
+            form: "json",
+            headers: { Authorization: "Bearer abc" },
+            template: { text: "{level}: {message}", tags: ["{main}"] },
+        });
+        transport.write(record("SUCCESS", "Deployed"));
+        await Bun.sleep(50);
+
+        const request = requests.pop()!;
+        expect(request.headers.get("authorization")).toBe("Bearer abc");
+        expect(request.body).toEqual({ text: "SUCCESS: Deployed", tags: ["Bun-testing"] });
+    });
+    test("JSON templates keep data and context structured", async () => {
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "json" });
+        transport.write(record("INFO", "Request", { logData: '{\n    "a": 1\n}', data: { a: 1 }, context: { id: 7 } }));
+        await Bun.sleep(50);
+        expect(requests.pop()!.body.logData).toEqual({ a: 1 });
+
+        const templated = new WebhookTransport({
+            url: new URL(server.url),
+            form: "json",
+            template: { data: "{data}", context: "{context}", text: "{message} {data}" },
+        });
+        templated.write(record("INFO", "Request", { logData: "[1]", data: [1], context: { id: 7 } }));
+        await Bun.sleep(50);
+        expect(requests.pop()!.body).toEqual({ data: [1], context: { id: 7 }, text: "Request [1]" });
+    });
+});
+
+describe("Delivery", () => {
+    test("Waits out discord rate limits", async () => {
+        responses.push(() => Response.json({ retry_after: 0.05 }, { status: 429 }));
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "discord", flushIntervalMs: 0 });
+        transport.write(record("ERROR", "Broken"));
+
+        const start = Date.now();
+        await transport.flush();
+
+        expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+        expect(transport.stats).toEqual({ sent: 1, retried: 1, dropped: 0 });
+    });
+    test("Drops logs after running out of retries", async () => {
+        for (let i = 0; i < 3; i++) responses.push(() => new Response(null, { status: 500 }));
+        const transport = new WebhookTransport(
+            { url: new URL(server.url), form: "discord", flushIntervalMs: 0, maxRetries: 2, retryDelayMs: 1 },
+            { report: () => {} },
+        );
+        transport.write(record("ERROR", "Broken"));
+        await transport.flush();
+
+        expect(transport.stats).toEqual({ sent: 0, retried: 2, dropped: 1 });
+    });
+    test("Splits large backlogs into full messages", async () => {
+        requests.length = 0;
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "discord", flushIntervalMs: 0 });
+        for (let i = 0; i < 25; i++) transport.write(record("INFO", `Log ${i}`));
+        await transport.flush();
+
+        expect(requests.map((request) => request.body.embeds.length)).toEqual([10, 10, 5]);
+        expect(transport.stats.sent).toBe(25);
+    });
+    test("Keeps discord messages under its length limits", async () => {
+        requests.length = 0;
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "discord", flushIntervalMs: 0 });
+        const logData = "x".repeat(3000);
+        for (let i = 0; i < 4; i++) transport.write(record("INFO", "Long ".repeat(100), { logData, data: logData }));
+        await transport.flush();
+
+        expect(requests.map((request) => request.body.embeds.length)).toEqual([1, 1, 1, 1]);
+        expect(requests[0].body.embeds[0].title).toHaveLength(256);
+        expect(transport.stats.sent).toBe(4);
+    });
+    test("Splits batches discord rejects instead of dropping them", async () => {
+        requests.length = 0;
+        responses.push(() => new Response(null, { status: 400 }));
+        const transport = new WebhookTransport({ url: new URL(server.url), form: "discord", flushIntervalMs: 0 });
+        for (let i = 0; i < 4; i++) transport.write(record("INFO", `Log ${i}`));
+        await transport.flush();
+
+        expect(requests.map((request) => request.body.embeds.length)).toEqual([4, 2, 2]);
+        expect(transport.stats).toEqual({ sent: 4, retried: 0, dropped: 0 });
+    });
+});
+describe("Destinations", () => {
+    test("Each destination has its own filters, username and avatar", async () => {
+        requests.length = 0;
+        const logger = Logger.withLevels("Bun-testing", "/users", {
+            show: { stdoutEnable: false },
+            logStorage: { json: false, txt: false },
+            levels: { AUDIT: { severity: 35, colour: "#00ffff" } },
+            logWebook: [
+                {
+                    enable: true,
+                    url: new URL("/oncall", server.url),
+                    form: "discord",
+                    minLevel: "ERROR",
+                    username: "On call: {sub}",
+                    avatarUrl: "https://example.com/oncall.png",
+                },
+                { enable: true, url: new URL("/team", server.url), form: "slack", levels: ["WARN"] },
+                {
+                    enable: true,
+                    url: new URL("/audit", server.url),
+                    form: "json",
+                    levels: ["AUDIT"],
+                    subProcess: /^\/admin/,
+                },
+            ],
+        });
+
+        logger.error("Broken");
+        logger.warn("Careful");
+        logger.info("Ignored everywhere");
+        logger.audit("Not from admin");
+        logger.child("/admin/users").audit("User deleted");
+        await logger.flush();
+
+        const sentTo = (path: string) => requests.filter((request) => request.path == path);
+        expect(sentTo("/oncall").map((request) => request.body.embeds.map((embed: any) => embed.title))).toEqual([
+            ["<Bun-testing./users> [ERROR] Broken"],
+        ]);
+        expect(sentTo("/oncall")[0].body.username).toBe("On call: /users");
+        expect(sentTo("/oncall")[0].body.avatar_url).toBe("https://example.com/oncall.png");
+        expect(sentTo("/team").map((request) => request.body.attachments.length)).toEqual([1]);
+        expect(sentTo("/team")[0].body.username).toBe("Bun-testing./users");
+        expect(sentTo("/audit").map((request) => request.body.logMessage)).toEqual(["User deleted"]);
+        expect(logger.webhookStats().sent).toBe(3);
+        await logger.close();
+    });
+});